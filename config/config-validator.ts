@@ -0,0 +1,199 @@
+/**
+ * Configuration Validator
+ * Checks every environment variable the suite reads against a schema before the run starts,
+ * so a typo or a missing secret fails once with a full list instead of deep inside a test.
+ *
+ * - Boolean flags must be exactly "true" or "false"; unset means "use the default",
+ *   which is not the same as "false".
+ * - URLs must parse; database URLs must use the postgres protocol.
+ * - LOG_LEVEL must be a known level and LOG_LEVELS a list of `module=level` pairs.
+ * - Secrets (test user credentials) falling back to a built-in default are a warning
+ *   locally and an error in CI.
+ */
+
+import { URL } from 'url';
+import {
+  ENVIRONMENT_NAMES,
+  EnvironmentName,
+  PROFILE_DEFAULTS,
+  PROFILE_VARIABLES,
+  ProfileVariables,
+} from './environments';
+import { isLogLevel, LOG_LEVELS, parseModuleLevels } from '../utils/logger';
+
+type EnvironmentVariables = Record<string, string | undefined>;
+
+export interface ConfigIssue {
+  /** Variable the issue is about, e.g. "CLEANUP_ON_END" */
+  variable: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Boolean flags and the value used when they are unset
+ */
+export const BOOLEAN_VARIABLES = {
+  CLEANUP_ON_START: false,
+  CLEANUP_ON_END: true,
+  DEBUG: false,
+} as const;
+
+export type BooleanVariable = keyof typeof BOOLEAN_VARIABLES;
+
+type VariableKind = 'url' | 'postgresUrl' | 'email' | 'secret';
+
+// Schema of the selected profile's variables
+const PROFILE_SCHEMA: Record<keyof ProfileVariables, { kind: VariableKind; required: boolean }> = {
+  baseUrl: { kind: 'url', required: false },
+  apiUrl: { kind: 'url', required: false },
+  databaseUrl: { kind: 'postgresUrl', required: false },
+  testUserEmail: { kind: 'email', required: true },
+  testUserPassword: { kind: 'secret', required: true },
+};
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid test configuration (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n` +
+        issues.map((issue) => `  - ${issue.variable}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Read a boolean flag: unset uses its default, "true"/"false" are taken as given.
+ * Any other value also falls back to the default — validateConfig() reports it.
+ */
+export function readBoolean(
+  name: BooleanVariable,
+  env: EnvironmentVariables = process.env
+): boolean {
+  const value = env[name]?.trim().toLowerCase();
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return BOOLEAN_VARIABLES[name];
+}
+
+/**
+ * Whether the run is in CI, where defaulted secrets are refused
+ */
+export function isCI(env: EnvironmentVariables = process.env): boolean {
+  return Boolean(env.CI) && env.CI !== 'false';
+}
+
+/**
+ * Validate the environment and return every issue found, errors and warnings
+ */
+export function validateConfig(env: EnvironmentVariables = process.env): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const error = (variable: string, message: string) =>
+    issues.push({ variable, message, severity: 'error' });
+  const warning = (variable: string, message: string) =>
+    issues.push({ variable, message, severity: 'warning' });
+
+  const testEnv = env.TEST_ENV || 'local';
+  if (!(ENVIRONMENT_NAMES as readonly string[]).includes(testEnv)) {
+    error(
+      'TEST_ENV',
+      `unknown environment "${testEnv}" (expected ${ENVIRONMENT_NAMES.join(', ')})`
+    );
+    // Without a profile the remaining variables cannot be checked
+    return issues;
+  }
+  const profile = testEnv as EnvironmentName;
+
+  for (const name of Object.keys(BOOLEAN_VARIABLES) as BooleanVariable[]) {
+    const value = env[name];
+    if (value !== undefined && !/^(true|false)$/i.test(value.trim())) {
+      error(name, `must be "true" or "false", got "${value}"`);
+    }
+  }
+
+  const logLevel = env.LOG_LEVEL;
+  if (logLevel !== undefined && !isLogLevel(logLevel.trim().toLowerCase())) {
+    error('LOG_LEVEL', `must be one of ${LOG_LEVELS.join(', ')}, got "${logLevel}"`);
+  }
+  const { invalid } = parseModuleLevels(env.LOG_LEVELS);
+  if (invalid.length > 0) {
+    error(
+      'LOG_LEVELS',
+      `expected comma-separated module=level pairs, got ${invalid.map((entry) => `"${entry}"`).join(', ')}`
+    );
+  }
+
+  const ci = isCI(env);
+  const defaults = PROFILE_DEFAULTS[profile];
+
+  for (const [key, rule] of Object.entries(PROFILE_SCHEMA) as [
+    keyof ProfileVariables,
+    (typeof PROFILE_SCHEMA)[keyof ProfileVariables],
+  ][]) {
+    const names = PROFILE_VARIABLES[profile][key];
+    const setName = names.find((name) => env[name] !== undefined && env[name] !== '');
+    const label = names.join(' / ');
+
+    if (!setName) {
+      if (!rule.required) {
+        if (key === 'databaseUrl') {
+          warning(label, 'unset - database verification and cleanup are skipped');
+        }
+        continue;
+      }
+      if (!defaults.testUser) {
+        error(label, `required for TEST_ENV=${profile}`);
+      } else if (ci) {
+        error(label, 'unset in CI - refusing to run with the built-in default credentials');
+      } else {
+        warning(label, 'unset - using the built-in default test account');
+      }
+      continue;
+    }
+
+    const value = env[setName]!;
+    const problem = checkValue(rule.kind, value);
+    if (problem) {
+      error(setName, problem);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate the environment, throwing one error that lists every problem.
+ * Warnings are returned for the caller to log.
+ */
+export function assertValidConfig(env: EnvironmentVariables = process.env): ConfigIssue[] {
+  const issues = validateConfig(env);
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+  return issues;
+}
+
+function checkValue(kind: VariableKind, value: string): string | null {
+  switch (kind) {
+    case 'url':
+    case 'postgresUrl': {
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        // Database URLs carry a password, so only echo plain URLs
+        return kind === 'url' ? `not a valid URL: "${value}"` : 'not a valid URL';
+      }
+      const protocols = kind === 'url' ? ['http:', 'https:'] : ['postgres:', 'postgresql:'];
+      if (!protocols.includes(url.protocol)) {
+        return `expected a ${protocols.join(' or ')} URL, got "${url.protocol}"`;
+      }
+      return null;
+    }
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : `not a valid email: "${value}"`;
+    case 'secret':
+      return null;
+  }
+}
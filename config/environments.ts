@@ -1,37 +1,203 @@
 /**
  * Environment Configuration
- * Manages different test environments (SIT, UAT, prod)
- * This is unused for now but may be useful later
+ * One typed profile per environment, selected with TEST_ENV (default: local).
+ * The profile drives the base URL, API URL, database URL, test users and which
+ * destructive operations may run — playwright.config.ts and testConfig both read it.
+ *
+ * Secrets come from environment variables, prefixed per environment so one .env
+ * can hold several (e.g. STAGING_DATABASE_URL, PROD_TEST_USER_EMAIL).
  */
 
+export const ENVIRONMENT_NAMES = ['local', 'dev', 'staging', 'production'] as const;
+
+export type EnvironmentName = (typeof ENVIRONMENT_NAMES)[number];
+
+export interface TestUserCredentials {
+  email: string;
+  password: string;
+}
+
 export interface Environment {
   name: string;
   baseUrl: string;
-  apiUrl?: string;
+  apiUrl: string;
+  /** Database for verification and cleanup; database steps are skipped when unset */
+  databaseUrl?: string;
+  testUsers: {
+    validUser: TestUserCredentials;
+  };
+  /** Destructive operations this environment allows */
+  allowDestructive: {
+    /** Run specs tagged @creates-data, which create users, organizations and business data */
+    createData: boolean;
+    /** Delete data: per-test cleanup, cleanup on start/end and the cleanup script */
+    cleanup: boolean;
+  };
 }
 
-export const environments: Record<string, Environment> = {
+/**
+ * Tag for specs that create data; they are excluded when the profile disallows it
+ */
+export const CREATES_DATA_TAG = '@creates-data';
+
+/**
+ * Maximum time one test can run
+ */
+export const TEST_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Environment variables each profile reads, first set name wins
+ */
+export interface ProfileVariables {
+  baseUrl: string[];
+  apiUrl: string[];
+  databaseUrl: string[];
+  testUserEmail: string[];
+  testUserPassword: string[];
+}
+
+export const PROFILE_VARIABLES: Record<EnvironmentName, ProfileVariables> = {
+  local: {
+    baseUrl: ['BASE_URL'],
+    apiUrl: ['API_URL'],
+    databaseUrl: ['DATABASE_URL'],
+    testUserEmail: ['TEST_USER_EMAIL'],
+    testUserPassword: ['TEST_USER_PASSWORD'],
+  },
+  dev: {
+    baseUrl: ['DEV_URL'],
+    apiUrl: ['DEV_API_URL'],
+    databaseUrl: ['DEV_DATABASE_URL', 'DATABASE_URL'],
+    testUserEmail: ['TEST_USER_EMAIL'],
+    testUserPassword: ['TEST_USER_PASSWORD'],
+  },
+  staging: {
+    baseUrl: ['STAGING_URL'],
+    apiUrl: ['STAGING_API_URL'],
+    databaseUrl: ['STAGING_DATABASE_URL'],
+    testUserEmail: ['STAGING_TEST_USER_EMAIL'],
+    testUserPassword: ['STAGING_TEST_USER_PASSWORD'],
+  },
+  production: {
+    baseUrl: ['PROD_URL'],
+    apiUrl: ['PROD_API_URL'],
+    databaseUrl: ['PROD_DATABASE_URL'],
+    testUserEmail: ['PROD_TEST_USER_EMAIL'],
+    testUserPassword: ['PROD_TEST_USER_PASSWORD'],
+  },
+};
+
+/**
+ * Built-in values used when a profile's variables are unset. Only local and dev fall back
+ * to the shared local account; other environments must provide their own credentials.
+ */
+export const PROFILE_DEFAULTS: Record<
+  EnvironmentName,
+  Pick<Environment, 'name' | 'baseUrl' | 'allowDestructive'> & {
+    testUser?: TestUserCredentials;
+  }
+> = {
+  local: {
+    name: 'Local',
+    baseUrl: 'http://localhost:3000',
+    testUser: { email: 'dummydumdopple@gmail.com', password: 'dummy@123' },
+    allowDestructive: { createData: true, cleanup: true },
+  },
   dev: {
     name: 'Development',
     baseUrl: 'http://102.130.120.68:3001',
-    apiUrl: 'http://102.130.120.68:3001/api',
+    testUser: { email: 'dummydumdopple@gmail.com', password: 'dummy@123' },
+    allowDestructive: { createData: true, cleanup: true },
   },
   staging: {
     name: 'Staging',
-    baseUrl: process.env.STAGING_URL || 'https://staging.example.com',
-    apiUrl: process.env.STAGING_API_URL || 'https://staging.example.com/api',
+    baseUrl: 'https://staging.example.com',
+    allowDestructive: { createData: true, cleanup: true },
   },
+  // Read-only: only specs that create nothing run, and nothing is ever deleted
   production: {
     name: 'Production',
-    baseUrl: process.env.PROD_URL || 'https://example.com',
-    apiUrl: process.env.PROD_API_URL || 'https://example.com/api',
+    baseUrl: 'https://example.com',
+    allowDestructive: { createData: false, cleanup: false },
   },
 };
 
+/**
+ * Value of the first set variable among `names`, or undefined when none is set
+ */
+export function readVariable(names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build every profile from the current process environment. Called on each lookup, not at
+ * import, because playwright.config.ts imports this module before loading .env.
+ */
+export function getEnvironments(): Record<EnvironmentName, Environment> {
+  const environments = {} as Record<EnvironmentName, Environment>;
+
+  for (const name of ENVIRONMENT_NAMES) {
+    const variables = PROFILE_VARIABLES[name];
+    const defaults = PROFILE_DEFAULTS[name];
+    const baseUrl = readVariable(variables.baseUrl) || defaults.baseUrl;
+
+    environments[name] = {
+      name: defaults.name,
+      baseUrl,
+      apiUrl: readVariable(variables.apiUrl) || `${baseUrl}/api`,
+      databaseUrl: readVariable(variables.databaseUrl),
+      testUsers: {
+        validUser: {
+          email: readVariable(variables.testUserEmail) || defaults.testUser?.email || '',
+          password: readVariable(variables.testUserPassword) || defaults.testUser?.password || '',
+        },
+      },
+      allowDestructive: defaults.allowDestructive,
+    };
+  }
+
+  return environments;
+}
+
+/**
+ * Name of the selected environment. Throws on an unknown TEST_ENV rather than
+ * silently running against another environment.
+ */
+export function getEnvironmentName(): EnvironmentName {
+  const name = process.env.TEST_ENV || 'local';
+  if (!(ENVIRONMENT_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown TEST_ENV "${name}". Expected one of: ${ENVIRONMENT_NAMES.join(', ')}`);
+  }
+  return name as EnvironmentName;
+}
+
 /**
  * Get current environment configuration
  */
 export function getEnvironment(): Environment {
-  const env = process.env.TEST_ENV || 'dev';
-  return environments[env] || environments.dev;
+  return getEnvironments()[getEnvironmentName()];
+}
+
+/**
+ * Throw when the current environment does not allow a destructive operation
+ *
+ * @param operation - The allowDestructive flag the operation needs
+ * @param description - What was about to happen, for the error message
+ */
+export function assertDestructiveAllowed(
+  operation: keyof Environment['allowDestructive'],
+  description: string
+): void {
+  const environment = getEnvironment();
+  if (!environment.allowDestructive[operation]) {
+    throw new Error(
+      `Refusing to ${description}: the ${environment.name} environment (TEST_ENV=${getEnvironmentName()}) does not allow ${operation}`
+    );
+  }
 }
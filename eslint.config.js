@@ -3,6 +3,14 @@ import tseslint from '@typescript-eslint/eslint-plugin';
 import tsparser from '@typescript-eslint/parser';
 import prettier from 'eslint-config-prettier';
 
+const NO_SLEEP_MESSAGE =
+  'Do not sleep for a fixed time. Wait for a signal with utils/wait.ts (Wait.forStableCount, forLoadingToFinish, forResponse, forToast, forAnimations) or a locator.';
+
+const NO_WAIT_FOR_TIMEOUT = {
+  selector: "CallExpression[callee.property.name='waitForTimeout']",
+  message: NO_SLEEP_MESSAGE,
+};
+
 export default [
   eslint.configs.recommended,
   {
@@ -39,6 +47,30 @@ export default [
       'no-unused-vars': 'off', // Turn off base rule
       'no-undef': 'error',
       'no-console': 'off',
+      // Fixed sleeps make tests slow and flaky; wait for a concrete signal instead
+      'no-restricted-syntax': ['error', NO_WAIT_FOR_TIMEOUT],
+    },
+  },
+  {
+    // Specs and page objects must not hand-roll a sleep either: `new Promise(r => setTimeout(r, n))`
+    // or the promise-based setTimeout of timers/promises
+    files: ['tests/**/*.ts', 'pages/**/*.ts'],
+    rules: {
+      'no-restricted-syntax': [
+        'error',
+        NO_WAIT_FOR_TIMEOUT,
+        {
+          selector:
+            "NewExpression[callee.name='Promise'] CallExpression:matches([callee.name='setTimeout'], [callee.property.name='setTimeout'])",
+          message: NO_SLEEP_MESSAGE,
+        },
+      ],
+      'no-restricted-imports': [
+        'error',
+        {
+          paths: [{ name: 'timers/promises', importNames: ['setTimeout'], message: NO_SLEEP_MESSAGE }],
+        },
+      ],
     },
   },
   prettier,
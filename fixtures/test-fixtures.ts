@@ -1,4 +1,4 @@
-import { test as base } from '@playwright/test';
+import { test as base, Page } from '@playwright/test';
 import { SignInPage } from '../pages/SignInPage';
 import { SignUpPage } from '../pages/SignUpPage';
 import { DashboardPage } from '../pages/DashboardPage';
@@ -10,9 +10,21 @@ import { SkuCategoriesPage } from '../pages/SkuCategoriesPage';
 import { SkuClassificationsPage } from '../pages/SkuClassificationsPage';
 import { SkusPage } from '../pages/SkusPage';
 import { SkuMasterRatesPage } from '../pages/SkuMasterRatesPage';
+import { Navigator } from '../pages/Navigator';
+import { ToastWatcher } from '../pages/components/ToastWatcher';
 import { DatabaseHelper } from '../utils/database-helper';
+import { repositories, Repositories } from '../utils/repositories';
+import { ChangeJournal } from '../utils/change-journal';
+import { TestCleanup } from '../utils/test-cleanup';
+import { EntityFactory } from '../utils/entity-factory';
+import { AuthState } from '../utils/auth-state';
+import { RoleUserPool } from '../utils/role-users';
+import { ApiOrganization, OrganizationHelper } from '../utils/organization-helper';
+import { SEED_ENV_VAR, TestDataGenerator } from '../utils/test-data-generator';
 import testConfig from '../config/test-config';
+import { assertDestructiveAllowed, CREATES_DATA_TAG } from '../config/environments';
 import { Logger } from '../utils/logger';
+import { BufferLogSink } from '../utils/log-sinks';
 
 /**
  * Extended fixtures for test isolation and database support
@@ -29,100 +41,103 @@ type CustomFixtures = {
   skuClassificationsPage: SkuClassificationsPage;
   skusPage: SkusPage;
   skuMasterRatesPage: SkuMasterRatesPage;
+  /** Sidebar navigation to any registered page, e.g. `await navigate.to(SkusPage)` */
+  navigate: Navigator;
   authenticatedPage: void;
+  /**
+   * Open a page signed in as a user holding an organization role, e.g. `await asRole('member')`.
+   * Roles: owner, admin, member and the custom roles in testConfig.roles.custom.
+   */
+  asRole: (role: string) => Promise<Page>;
+  /**
+   * The worker's own organization, activated for the signed-in page. Use it instead of
+   * OrganizationHelper.ensureActiveOrganization so parallel workers never share a tenant.
+   */
+  activeOrganization: ApiOrganization;
   database: typeof DatabaseHelper;
+  repositories: Repositories;
+  /** Register every entity the test creates; it is deleted after the test, even on failure */
   testCleanup: TestCleanup;
+  /**
+   * Inserts preconditions (clients, suppliers, SKUs, rates...) into the worker's organization,
+   * with any parents they need, and registers them with `testCleanup`
+   */
+  factory: EntityFactory;
+  /**
+   * Opt-in: revert every row the test inserted into the worker's organization once it
+   * finishes, whatever its outcome. Enable per spec with `test.use({ isolateDatabase: true })`;
+   * takes effect for tests using `activeOrganization`, the organization it is scoped to.
+   */
+  isolateDatabase: boolean;
+  databaseIsolation: void;
+  /** Fails specs tagged @creates-data in environments that must not gain data */
+  environmentGuard: void;
+  /**
+   * Logs the start and end of the test and attaches its structured log entries to the
+   * result as `log.ndjson`
+   */
+  testLog: void;
+  /**
+   * Seeds TestDataGenerator from the run seed and the test's ID, so a rerun with the same
+   * TEST_SEED generates the same data; the seed is added to the test's annotations
+   */
+  testDataSeed: void;
+  /**
+   * Records every toast of the test's page and `asRole` pages; use `expectToast()` to assert
+   * one after the fact. Unexpected error toasts fail the test.
+   */
+  toastWatcher: ToastWatcher;
+  /**
+   * Fail tests that show an error toast they did not expect or allow (default true).
+   * Disable per spec with `test.use({ failOnErrorToast: false })`.
+   */
+  failOnErrorToast: boolean;
 };
 
 /**
- * Test cleanup tracker
- * Tracks resources created during test for automatic cleanup
+ * Worker-scoped fixtures, set up once per worker process
  */
-class TestCleanup {
-  private usersToCleanup: string[] = [];
-  private organizationsToCleanup: string[] = [];
-
-  registerUser(email: string): void {
-    this.usersToCleanup.push(email);
-    Logger.debug(`Registered user for cleanup: ${email}`);
-  }
-
-  registerOrganization(slug: string): void {
-    this.organizationsToCleanup.push(slug);
-    Logger.debug(`Registered organization for cleanup: ${slug}`);
-  }
-
-  async cleanup(): Promise<void> {
-    if (!process.env.DATABASE_URL) {
-      Logger.info('Skipping database cleanup - no DATABASE_URL configured');
-      this.usersToCleanup = [];
-      this.organizationsToCleanup = [];
-      return;
-    }
-
-    Logger.info('Starting test cleanup...');
-
-    try {
-      await DatabaseHelper.connect();
-    } catch (error) {
-      Logger.warning('Could not connect to database for cleanup', error);
-      return;
-    }
-
-    for (const slug of this.organizationsToCleanup) {
-      try {
-        await DatabaseHelper.deleteOrganizationBySlug(slug);
-        Logger.debug(`Cleaned up organization: ${slug}`);
-      } catch (error) {
-        Logger.warning(`Failed to cleanup organization ${slug}:`, error);
-      }
-    }
-
-    for (const email of this.usersToCleanup) {
-      try {
-        await DatabaseHelper.deleteUserByEmail(email);
-        Logger.debug(`Cleaned up user: ${email}`);
-      } catch (error) {
-        Logger.warning(`Failed to cleanup user ${email}:`, error);
-      }
-    }
-
-    Logger.success(
-      `Cleanup complete: ${this.usersToCleanup.length} users, ${this.organizationsToCleanup.length} orgs`
-    );
-
-    this.usersToCleanup = [];
-    this.organizationsToCleanup = [];
-  }
-
-  getStats(): { users: number; organizations: number } {
-    return {
-      users: this.usersToCleanup.length,
-      organizations: this.organizationsToCleanup.length,
-    };
-  }
-}
+type WorkerFixtures = {
+  /**
+   * Path of the default test user's cached storage state for this worker — each worker has
+   * its own session — refreshed when the session expired
+   */
+  authStatePath: string;
+  /** Dedicated `test-org-*` organization owned by the default test user, deleted with all its data */
+  workerOrganization: ApiOrganization;
+  /** One user per organization role in the worker's organization */
+  roleUsers: RoleUserPool;
+  /** Tags every log entry of the worker with its parallel index */
+  workerLogContext: void;
+};
 
-export const test = base.extend<CustomFixtures>({
+export const test = base.extend<CustomFixtures, WorkerFixtures>({
+  // eslint-disable-next-line no-empty-pattern
   database: async ({}, use) => {
-    if (process.env.DATABASE_URL) {
+    if (testConfig.database.enabled) {
       try {
         await DatabaseHelper.connect();
       } catch (error) {
         Logger.warning('Could not connect to database', error);
       }
     } else {
-      Logger.info('Skipping database connection - no DATABASE_URL configured');
+      Logger.info('Skipping database connection - no database URL configured');
     }
 
     await use(DatabaseHelper);
   },
 
+  repositories: async ({ database }, use) => {
+    void database;
+    await use(repositories);
+  },
+
+  // eslint-disable-next-line no-empty-pattern
   testCleanup: async ({}, use) => {
     const cleanup = new TestCleanup();
     await use(cleanup);
 
-    if (process.env.DATABASE_URL) {
+    if (testConfig.database.enabled) {
       try {
         await DatabaseHelper.connect();
       } catch (error) {
@@ -130,7 +145,149 @@ export const test = base.extend<CustomFixtures>({
       }
       await cleanup.cleanup();
     } else {
-      Logger.info('Skipping test cleanup - no DATABASE_URL configured');
+      Logger.info('Skipping test cleanup - no database URL configured');
+    }
+  },
+
+  factory: async ({ database, testCleanup, activeOrganization }, use) => {
+    void database;
+    await use(new EntityFactory(testCleanup, activeOrganization.id));
+  },
+
+  isolateDatabase: [false, { option: true }],
+
+  workerLogContext: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, workerInfo) => {
+      Logger.setContext({ worker: workerInfo.parallelIndex });
+      await use();
+    },
+    { scope: 'worker', auto: true },
+  ],
+
+  // Declared before the other auto fixtures so it is torn down last and captures their cleanup
+  testLog: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo) => {
+      const buffer = new BufferLogSink();
+      Logger.setContext({
+        worker: testInfo.parallelIndex,
+        testId: testInfo.testId,
+        test: testInfo.titlePath.slice(1).join(' > '),
+      });
+      Logger.addSink(buffer);
+      Logger.testStart(testInfo.title);
+
+      await use();
+
+      Logger.testEnd(testInfo.title, testInfo.status === testInfo.expectedStatus);
+      Logger.removeSink(buffer);
+      Logger.setContext({ worker: testInfo.parallelIndex });
+      if (buffer.entries.length > 0) {
+        await testInfo.attach('log.ndjson', {
+          body: buffer.toNdjson(),
+          // text/plain so the HTML report shows it inline
+          contentType: 'text/plain',
+        });
+      }
+    },
+    { auto: true },
+  ],
+
+  testDataSeed: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo) => {
+      const seed = TestDataGenerator.seed(
+        `${testInfo.testId}:${testInfo.repeatEachIndex}:${testInfo.retry}`
+      );
+      const runSeed = TestDataGenerator.runSeed();
+      testInfo.annotations.push({
+        type: 'data-seed',
+        description: `${SEED_ENV_VAR}=${runSeed} (test seed ${seed})`,
+      });
+      Logger.debug(`Test data seed ${seed} (${SEED_ENV_VAR}=${runSeed})`);
+      await use();
+    },
+    { auto: true },
+  ],
+
+  failOnErrorToast: [true, { option: true }],
+
+  toastWatcher: [
+    async ({ page, failOnErrorToast }, use, testInfo) => {
+      const watcher = new ToastWatcher();
+      await watcher.watch(page.context());
+
+      await use(watcher);
+
+      if (watcher.records.length > 0) {
+        await testInfo.attach('toasts.json', {
+          body: JSON.stringify(watcher.records, null, 2),
+          contentType: 'application/json',
+        });
+      }
+
+      const unexpected = watcher.unexpectedErrors();
+      if (unexpected.length === 0) {
+        return;
+      }
+      const message =
+        `${unexpected.length} unexpected error toast(s): ` +
+        unexpected.map((toast) => `"${toast.title}" on ${toast.url}`).join(', ') +
+        '. Expect them with toastWatcher.expectToast() or allow them with toastWatcher.allow().';
+      // A test that already failed keeps its own error
+      if (failOnErrorToast && testInfo.status === 'passed') {
+        throw new Error(message);
+      }
+      Logger.warning(message);
+    },
+    { auto: true },
+  ],
+
+  environmentGuard: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo) => {
+      // grepInvert already excludes these specs; this catches runs that override --grep
+      if (testInfo.tags.includes(CREATES_DATA_TAG)) {
+        assertDestructiveAllowed('createData', `run "${testInfo.title}"`);
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  databaseIsolation: async ({ isolateDatabase, workerOrganization }, use) => {
+    if (!isolateDatabase) {
+      await use();
+      return;
+    }
+
+    if (!testConfig.database.enabled) {
+      Logger.info('Skipping database isolation - no database URL configured');
+      await use();
+      return;
+    }
+    assertDestructiveAllowed('cleanup', 'revert rows with database isolation');
+
+    await DatabaseHelper.connect();
+    await ChangeJournal.install();
+    const mark = await ChangeJournal.mark();
+
+    await use();
+
+    try {
+      await DatabaseHelper.connect();
+      const result = await ChangeJournal.revert(mark, workerOrganization.id);
+      if (result.failed > 0) {
+        Logger.warning(`Database isolation could not revert ${result.failed} row(s)`);
+      }
+      if (result.unresolved > 0) {
+        Logger.warning(
+          `Database isolation left ${result.unresolved} row(s) of no known organization in place`
+        );
+      }
+    } catch (error) {
+      Logger.warning('Database isolation revert failed', error);
     }
   },
 
@@ -178,24 +335,147 @@ export const test = base.extend<CustomFixtures>({
     await use(new SkuMasterRatesPage(page));
   },
 
-  authenticatedPage: async ({ page }, use) => {
-    Logger.info('🔐 Setting up authenticated session');
+  navigate: async ({ page }, use) => {
+    await use(new Navigator(page));
+  },
 
-    const signInPage = new SignInPage(page);
+  authStatePath: [
+    async ({ browser }, use, workerInfo) => {
+      const slot = AuthState.workerSlot(workerInfo.parallelIndex);
+      await use(await AuthState.ensure(browser, testConfig.testUsers.validUser, slot));
+    },
+    { scope: 'worker' },
+  ],
+
+  workerOrganization: [
+    async ({ browser, authStatePath }, use, workerInfo) => {
+      assertDestructiveAllowed('createData', 'create a worker organization');
+      const context = await browser.newContext({
+        baseURL: testConfig.baseUrl,
+        ignoreHTTPSErrors: true,
+        storageState: authStatePath,
+      });
+      // Generated apart from the test sequence, as the fixture may start in the middle of any test
+      const organization = await OrganizationHelper.createViaApi(
+        context.request,
+        TestDataGenerator.withRunNonce(`worker-${workerInfo.workerIndex}`, () =>
+          TestDataGenerator.generateOrganization()
+        )
+      );
+      await OrganizationHelper.setActiveViaApi(context.request, organization.id);
+      Logger.info(`🏢 Worker organization: ${organization.slug}`);
+
+      await use(organization);
+
+      // Deleting the organization removes every client, supplier, SKU... created in it
+      try {
+        if (testConfig.database.enabled) {
+          await DatabaseHelper.connect();
+          await DatabaseHelper.deleteOrganizationById(organization.id);
+        } else {
+          await OrganizationHelper.deleteViaApi(context.request, organization.id);
+        }
+        Logger.info(`Deleted worker organization: ${organization.slug}`);
+      } catch (error) {
+        Logger.warning(`Failed to delete worker organization ${organization.slug}`, error);
+      }
+      await context.close();
+    },
+    { scope: 'worker' },
+  ],
+
+  // Set up before and torn down after the organization is used, so the revert sees every insert
+  activeOrganization: async (
+    {
+      page,
+      authenticatedPage,
+      database,
+      dashboardPage,
+      organizationPage,
+      workerOrganization,
+      databaseIsolation,
+      testCleanup,
+    },
+    use
+  ) => {
+    void authenticatedPage;
+    void databaseIsolation;
+    // Entities the test registers by name are looked up in this organization only
+    testCleanup.setOrganization(workerOrganization.id);
+    // Another spec in this worker may have switched the session to a different organization
+    if (testConfig.database.enabled) {
+      await OrganizationHelper.ensureActiveOrganizationFromDatabase(
+        page,
+        database,
+        dashboardPage,
+        organizationPage,
+        workerOrganization.id
+      );
+    } else {
+      await OrganizationHelper.setActiveViaApi(page.request, workerOrganization.id);
+      await page.reload();
+      await page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+    }
+    await use(workerOrganization);
+  },
 
-    await signInPage.navigateToHome();
-    await page.click('a:has-text("Sign In")');
-    await signInPage.signIn(
-      testConfig.testUsers.validUser.email,
-      testConfig.testUsers.validUser.password,
-      true
-    );
+  authenticatedPage: async ({ page, dashboardPage, authStatePath }, use, testInfo) => {
+    void authStatePath;
+    const credentials = testConfig.testUsers.validUser;
+    const slot = AuthState.workerSlot(testInfo.parallelIndex);
 
-    await page.waitForURL('**/dashboard', { timeout: 15000 });
-    Logger.success('✅ User authenticated and on dashboard');
+    // Reuse the worker's cached session cookies instead of signing in through the UI
+    const state = AuthState.read(credentials.email, slot);
+    if (state) {
+      await page.context().addCookies(state.cookies);
+    }
+    await page.goto('/dashboard');
+
+    if (await dashboardPage.isOnDashboard()) {
+      Logger.info('🔐 Reusing cached authenticated session');
+    } else {
+      // The server no longer accepts the cached session — sign in again and refresh the cache
+      Logger.info('🔐 Cached session rejected, signing in again');
+      await AuthState.signIn(page, credentials);
+      await AuthState.save(page.context(), credentials.email, slot);
+    }
 
+    Logger.success('✅ User authenticated and on dashboard');
     await use();
   },
+
+  roleUsers: [
+    async ({ browser, workerOrganization }, use) => {
+      const pool = new RoleUserPool(browser, workerOrganization.id);
+      await use(pool);
+      await pool.dispose();
+    },
+    { scope: 'worker' },
+  ],
+
+  asRole: async ({ browser, roleUsers, toastWatcher }, use) => {
+    const contexts: Awaited<ReturnType<typeof browser.newContext>>[] = [];
+
+    await use(async (role: string) => {
+      const user = await roleUsers.get(role);
+      const context = await browser.newContext({
+        baseURL: testConfig.baseUrl,
+        ignoreHTTPSErrors: true,
+        storageState: user.storageStatePath,
+      });
+      contexts.push(context);
+      await toastWatcher.watch(context);
+
+      const page = await context.newPage();
+      await page.goto('/dashboard');
+      Logger.info(`🔐 Signed in as ${role}: ${user.email}`);
+      return page;
+    });
+
+    for (const context of contexts) {
+      await context.close();
+    }
+  },
 });
 
-export { expect } from '@playwright/test';
\ No newline at end of file
+export { expect } from '@playwright/test';
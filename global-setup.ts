@@ -1,6 +1,8 @@
 /**
  * Global Setup
  * Runs once before all tests
+ * - Validates configuration and environment variables
+ * - Picks and prints the test data seed
  * - Connects to database
  * - Optionally cleans up old test data
  */
@@ -8,13 +10,25 @@
 import { DatabaseHelper } from './utils/database-helper';
 import { Logger } from './utils/logger';
 import testConfig from './config/test-config';
+import { assertValidConfig } from './config/config-validator';
+import { SEED_ENV_VAR, TestDataGenerator } from './utils/test-data-generator';
 
 async function globalSetup() {
   Logger.info('🚀 Starting global setup...');
 
   try {
-    if (!process.env.DATABASE_URL) {
-      Logger.info('No DATABASE_URL found - skipping database setup');
+    // Fails with every problem listed at once
+    const warnings = assertValidConfig();
+    for (const warning of warnings) {
+      Logger.warning(`Config: ${warning.variable} ${warning.message}`);
+    }
+    Logger.info(`Environment: ${testConfig.environment} (${testConfig.baseUrl})`);
+    // Chosen here so every worker derives its test seeds from the same run seed
+    const seed = TestDataGenerator.runSeed();
+    Logger.info(`🎲 Test data seed: ${seed} (reproduce with ${SEED_ENV_VAR}=${seed})`);
+
+    if (!testConfig.database.enabled) {
+      Logger.info('No database URL configured - skipping database setup');
       Logger.success('✅ Global setup complete');
       return;
     }
@@ -22,7 +36,11 @@ async function globalSetup() {
     await DatabaseHelper.connect();
     Logger.success('Database connected');
 
-    if (testConfig.database.cleanupOnStart) {
+    if (testConfig.database.cleanupOnStart && !testConfig.allowDestructive.cleanup) {
+      Logger.warning(
+        `Skipping cleanup on start - not allowed in the ${testConfig.environment} environment`
+      );
+    } else if (testConfig.database.cleanupOnStart) {
       Logger.info('Cleaning up old test data...');
 
       const usersDeleted = await DatabaseHelper.cleanupTestUsers(
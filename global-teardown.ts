@@ -2,10 +2,12 @@
  * Global Teardown
  * Runs once after all tests complete
  * - Optionally cleans up test data
+ * - Removes the change journal used by database isolation
  * - Closes database connection
  */
 
 import { DatabaseHelper } from './utils/database-helper';
+import { ChangeJournal } from './utils/change-journal';
 import { Logger } from './utils/logger';
 import testConfig from './config/test-config';
 
@@ -13,13 +15,13 @@ async function globalTeardown() {
   Logger.info('🧹 Starting global teardown...');
 
   try {
-    if (!process.env.DATABASE_URL) {
-      Logger.info('No DATABASE_URL found - skipping database teardown');
+    if (!testConfig.database.enabled) {
+      Logger.info('No database URL configured - skipping database teardown');
       Logger.success('✅ Global teardown complete');
       return;
     }
 
-    Logger.info('DATABASE_URL found, attempting database cleanup...');
+    Logger.info('Database URL configured, attempting database cleanup...');
 
     try {
       await DatabaseHelper.connect();
@@ -30,7 +32,11 @@ async function globalTeardown() {
       return;
     }
 
-    if (testConfig.database.cleanupOnEnd && DatabaseHelper.isConnected()) {
+    if (testConfig.database.cleanupOnEnd && !testConfig.allowDestructive.cleanup) {
+      Logger.info(
+        `Skipping database cleanup - not allowed in the ${testConfig.environment} environment`
+      );
+    } else if (testConfig.database.cleanupOnEnd && DatabaseHelper.isConnected()) {
       Logger.info('Cleaning up test data...');
 
       try {
@@ -54,6 +60,17 @@ async function globalTeardown() {
       Logger.info('Skipping database cleanup (disabled or DB not connected)');
     }
 
+    // Remove the isolation triggers so the app stops journaling inserts between runs
+    if (DatabaseHelper.isConnected() && testConfig.allowDestructive.cleanup) {
+      try {
+        if (await ChangeJournal.isInstalled()) {
+          await ChangeJournal.uninstall();
+        }
+      } catch (journalError) {
+        Logger.warning('Failed to remove change journal:', journalError);
+      }
+    }
+
     if (DatabaseHelper.isConnected()) {
       try {
         await DatabaseHelper.disconnect();
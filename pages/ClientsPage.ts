@@ -1,6 +1,10 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
 import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
+import { Dialog } from './components/Dialog';
+
+const log = Logger.for('pages');
 
 /**
  * Clients Page Object Model
@@ -8,28 +12,21 @@ import testConfig from '../config/test-config';
  * the client list table, create dialog, and row actions.
  */
 export class ClientsPage {
-  // ===== NAVIGATION =====
-  private readonly clientsNavLink: Locator;
-
   // ===== PAGE HEADER =====
-  private readonly createButton: Locator;
+  readonly createButton: Locator;
 
   // ===== CREATE DIALOG =====
+  readonly createDialog: Dialog;
   private readonly displayNameInput: Locator;
-  private readonly dialogSubmitButton: Locator;
 
   // ===== TABLE =====
-  private readonly clientsTable: Locator;
-  private readonly tableRows: Locator;
+  readonly grid: DataGrid<'name'>;
 
   /**
    * Initialize Clients page with locators
    * @param page - Playwright page object
    */
   constructor(public page: Page) {
-    // Sidebar nav link - target by href for specificity
-    this.clientsNavLink = page.locator('a[data-slot="sidebar-menu-button"][href="/clients"]');
-
     // Page-level Create button (the one in the top-right area, not inside a dialog)
     // It has a Plus icon and text "Create", but we scope it outside any dialog
     this.createButton = page
@@ -37,29 +34,12 @@ export class ClientsPage {
       .filter({ hasText: 'Create' })
       .first();
 
-    // Create dialog form fields
-    this.displayNameInput = page.locator('input#displayName');
-
-    // Submit button inside the dialog form (type="submit")
-    this.dialogSubmitButton = page.locator('button[type="submit"]').filter({ hasText: 'Create' });
+    // Create dialog and its form fields
+    this.createDialog = new Dialog(page, { opener: this.createButton });
+    this.displayNameInput = this.createDialog.root.locator('input#displayName');
 
     // Table
-    this.clientsTable = page.locator('table[data-slot="table"]');
-    this.tableRows = page.locator('table[data-slot="table"] tbody tr');
-  }
-
-  // ===== NAVIGATION =====
-
-  /**
-   * Click the Clients link in the sidebar
-   */
-  async navigateToClients(): Promise<void> {
-    Logger.info('Clicking Clients sidebar link');
-    await this.clientsNavLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.clientsNavLink.click();
-    await this.page.waitForURL('**/clients', { timeout: testConfig.timeouts.medium });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-    Logger.success('Navigated to Clients page');
+    this.grid = new DataGrid(page, { name: 'Client Name' });
   }
 
   // ===== CREATE CLIENT =====
@@ -68,12 +48,9 @@ export class ClientsPage {
    * Click the top-level Create button to open the create dialog
    */
   async clickCreateButton(): Promise<void> {
-    Logger.info('Clicking Create button');
-    await this.createButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.createButton.click();
-    // Wait for the dialog / input to appear
-    await this.displayNameInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    Logger.success('Create dialog opened');
+    log.info('Clicking Create button');
+    await this.createDialog.open();
+    log.success('Create dialog opened');
   }
 
   /**
@@ -81,21 +58,17 @@ export class ClientsPage {
    * @param name - Client display name
    */
   async fillDisplayName(name: string): Promise<void> {
-    Logger.info(`Filling client display name: ${name}`);
-    await this.displayNameInput.fill(name);
-    await this.displayNameInput.blur();
+    log.info(`Filling client display name: ${name}`);
+    await this.createDialog.fill(this.displayNameInput, name);
   }
 
   /**
    * Submit the create client dialog form
    */
   async submitCreateDialog(): Promise<void> {
-    Logger.info('Submitting Create Client dialog');
-    await this.dialogSubmitButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.dialogSubmitButton.click();
-    // Wait for dialog to close (input disappears)
-    await this.displayNameInput.waitFor({ state: 'hidden', timeout: testConfig.timeouts.medium });
-    Logger.success('Create Client dialog submitted');
+    log.info('Submitting Create Client dialog');
+    await this.createDialog.submitAndWaitForClose();
+    log.success('Create Client dialog submitted');
   }
 
   /**
@@ -114,41 +87,18 @@ export class ClientsPage {
    * Wait for the clients table to be visible
    */
   async waitForTableToLoad(): Promise<void> {
-    Logger.info('Waiting for clients table to load');
-    await this.clientsTable.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+    log.info('Waiting for clients table to load');
+    await this.grid.waitForLoad();
   }
 
   /**
-   * Find a table row by the client display name
-   * Looks in the "Client Name" column (second <td>)
+   * Find a table row by the client display name, across all pages
    * @param name - The display name to search for
    * @returns The row Locator or null if not found
    */
   async getRowByClientName(name: string): Promise<Locator | null> {
-    Logger.info(`Looking for client row with name: "${name}"`);
-    await this.waitForTableToLoad();
-
-    const rowCount = await this.tableRows.count();
-    Logger.info(`Table has ${rowCount} rows`);
-
-    for (let i = 0; i < rowCount; i++) {
-      const row = this.tableRows.nth(i);
-      // The name cell is the second <td> — rendered as a div with text-left
-      const nameCell = row.locator('td:nth-child(2) div.text-left');
-      try {
-        const text = await nameCell.textContent({ timeout: testConfig.timeouts.short });
-        if (text?.trim() === name) {
-          Logger.info(`Found client "${name}" at row ${i + 1}`);
-          return row;
-        }
-      } catch {
-        // cell not found in this row — continue
-      }
-    }
-
-    Logger.warning(`Client "${name}" not found in table`);
-    return null;
+    const row = await this.grid.findRow('name', name);
+    return row?.locator ?? null;
   }
 
   /**
@@ -170,10 +120,10 @@ export class ClientsPage {
    * @returns true if the button was clicked, false if the row was not found
    */
   async clickDeactivateForClient(name: string): Promise<boolean> {
-    Logger.info(`Clicking Deactivate button for client: "${name}"`);
+    log.info(`Clicking Deactivate button for client: "${name}"`);
     const row = await this.getRowByClientName(name);
     if (!row) {
-      Logger.warning(`Could not find row for client "${name}" — skipping deactivate`);
+      log.warning(`Could not find row for client "${name}" — skipping deactivate`);
       return false;
     }
 
@@ -181,7 +131,7 @@ export class ClientsPage {
     await deactivateButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
     await deactivateButton.click();
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
-    Logger.success(`Deactivate button clicked for client "${name}"`);
+    log.success(`Deactivate button clicked for client "${name}"`);
     return true;
   }
 
@@ -1,7 +1,10 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
+import { Wait } from '../utils/wait';
 import testConfig from '../config/test-config';
 
+const log = Logger.for('pages');
+
 /**
  * Dashboard Page Object Model
  */
@@ -28,35 +31,31 @@ export class DashboardPage {
     await trigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
     const state = await trigger.getAttribute('data-state');
     if (state !== 'open') {
-      Logger.info(`Expanding sidebar group: ${groupName}`);
+      log.info(`Expanding sidebar group: ${groupName}`);
       await trigger.click();
-      await this.page.waitForTimeout(300); // allow animation to complete
+      // Let the sub-menu finish sliding open before its links are clicked
+      await this.page
+        .locator('button[data-slot="sidebar-menu-button"][data-state="open"]')
+        .filter({ hasText: groupName })
+        .first()
+        .waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+      await Wait.forAnimations(trigger.locator('xpath=ancestor::li[1]'));
     } else {
-      Logger.info(`Sidebar group "${groupName}" is already open`);
+      log.info(`Sidebar group "${groupName}" is already open`);
     }
   }
 
   // ===== NAVIGATION =====
 
   async navigateToDashboard(): Promise<void> {
-    Logger.info('Navigating to Dashboard');
+    log.info('Navigating to Dashboard');
     await this.dashboardLink.click();
     await this.page.waitForURL('**/dashboard', { timeout: testConfig.timeouts.medium });
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
   }
 
-  async navigateToOrganization(): Promise<void> {
-    Logger.info('Navigating to Organization page');
-    await this.expandSidebarGroup('Organization');
-    const orgLink = this.page.locator('a[data-slot="sidebar-menu-sub-button"][href="/organization"]');
-    await orgLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await orgLink.click();
-    await this.page.waitForURL('**/organization', { timeout: testConfig.timeouts.medium });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-  }
-
   async navigateToUsers(): Promise<void> {
-    Logger.info('Navigating to Users page');
+    log.info('Navigating to Users page');
     await this.expandSidebarGroup('Organization');
     const usersLink = this.page.locator('a[data-slot="sidebar-menu-sub-button"][href="/members"]');
     await usersLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
@@ -72,7 +71,7 @@ export class DashboardPage {
       await this.dashboardLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
       return this.page.url().includes('/dashboard');
     } catch (error) {
-      Logger.debug('Not on dashboard page', error);
+      log.debug('Not on dashboard page', error);
       return false;
     }
   }
@@ -84,7 +83,7 @@ export class DashboardPage {
   // ===== ORGANIZATION PAGE ACTIONS =====
 
   async clickCreateButton(): Promise<void> {
-    Logger.info('Clicking Create button on Organization page');
+    log.info('Clicking Create button on Organization page');
     await this.createLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
     await this.createLink.click();
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
@@ -95,13 +94,13 @@ export class DashboardPage {
       await this.createLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
       return true;
     } catch (error) {
-      Logger.debug('Create button not visible', error);
+      log.debug('Create button not visible', error);
       return false;
     }
   }
 
   async waitForDashboardLoaded(): Promise<void> {
-    Logger.info('Waiting for dashboard to be fully loaded');
+    log.info('Waiting for dashboard to be fully loaded');
     await this.page.waitForURL('**/dashboard', { timeout: testConfig.timeouts.long });
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
     await this.dashboardLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
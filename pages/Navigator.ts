@@ -0,0 +1,78 @@
+import { Page, Locator } from '@playwright/test';
+import { Logger } from '../utils/logger';
+import testConfig from '../config/test-config';
+import { DashboardPage } from './DashboardPage';
+import { PageObjectClass, Route, ROUTES } from './routes';
+
+const log = Logger.for('pages');
+
+/**
+ * Sidebar Navigator
+ * Reaches any page registered in `ROUTES` the way a user would: expands the route's sidebar
+ * group, clicks its link, waits for the URL and returns the page object.
+ *
+ * @example
+ * const skusPage = await navigate.to(SkusPage);
+ * await skusPage.waitForTableToLoad();
+ */
+export class Navigator {
+  private readonly dashboardPage: DashboardPage;
+
+  /**
+   * @param page - Playwright page object
+   */
+  constructor(public page: Page) {
+    this.dashboardPage = new DashboardPage(page);
+  }
+
+  /**
+   * The registered route of a page object class
+   */
+  static routeFor(pageClass: PageObjectClass): Route {
+    const route = ROUTES.find((candidate) => candidate.page === pageClass);
+    if (!route) {
+      throw new Error(
+        `No route registered for ${pageClass.name}; add it to ROUTES in pages/routes.ts`
+      );
+    }
+    return route;
+  }
+
+  /**
+   * Navigate to a page through the sidebar
+   * @returns The page object of the page navigated to
+   */
+  async to<T>(pageClass: PageObjectClass<T>): Promise<T> {
+    await this.follow(Navigator.routeFor(pageClass));
+    return new pageClass(this.page);
+  }
+
+  /**
+   * Navigate to a route through the sidebar
+   */
+  async follow(route: Route): Promise<void> {
+    log.info(`Navigating to ${route.name}`);
+    if (route.group) {
+      await this.dashboardPage.expandSidebarGroup(route.group);
+    }
+
+    const link = this.linkFor(route);
+    await link.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
+    await link.click();
+    // Some pages add query parameters (filters, pagination) once they load
+    await this.page.waitForURL((url) => url.pathname === route.href, {
+      timeout: testConfig.timeouts.medium,
+    });
+    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
+    log.success(`Navigated to ${route.name}`);
+  }
+
+  /**
+   * The sidebar link of a route. Links inside a group are `sidebar-menu-sub-button`s, top-level
+   * ones `sidebar-menu-button`s.
+   */
+  linkFor(route: Route): Locator {
+    const slot = route.group ? 'sidebar-menu-sub-button' : 'sidebar-menu-button';
+    return this.page.locator(`a[data-slot="${slot}"][href="${route.href}"]`).first();
+  }
+}
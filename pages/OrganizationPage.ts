@@ -1,9 +1,14 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
+import { TestStep } from '../utils/test-step';
+import { TOAST_SELECTOR } from '../utils/wait';
 import { OrganizationData } from '../utils/test-data-generator';
 import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
 import path from 'path';
 
+const log = Logger.for('pages');
+
 /**
  * Organization Page Object Model
  * Handles all interactions with organization management pages
@@ -28,14 +33,8 @@ export class OrganizationPage {
   private readonly form: Locator;
 
   // ===== ORGANIZATION LIST TABLE ELEMENTS =====
-  private readonly organizationsTable: Locator;
-  private readonly tableRows: Locator;
+  readonly grid: DataGrid<'slug'>;
   private readonly createButton: Locator;
-  
-  // ===== PAGINATION ELEMENTS =====
-  private readonly nextPageButton: Locator;
-  private readonly previousPageButton: Locator;
-  private readonly paginationInfo: Locator;
 
   /**
    * Initialize Organization page with locators
@@ -50,25 +49,19 @@ export class OrganizationPage {
     this.submitButton = page.locator('button[type="submit"]:has-text("Submit")').first();
     this.resetButton = page.locator('button[type="button"]:has-text("Reset")').first();
 
-    this.successToast = page.locator('[data-sonner-toast][data-type="success"]');
+    this.successToast = page.locator(`${TOAST_SELECTOR}[data-type="success"]`);
     this.pageTitle = page.locator('h1, [data-slot="title"]').first();
     this.form = page.locator('form#organization-form');
 
     // ===== ORGANIZATION LIST ELEMENTS =====
-    this.organizationsTable = page.locator('table[data-testid="data-grid"]');
-    this.tableRows = page.locator('table[data-testid="data-grid"] tbody tr');
+    this.grid = new DataGrid(page, { slug: 'Slug' });
     this.createButton = page.locator('a[href="/organization/create"] button');
-    
-    // ===== PAGINATION ELEMENTS =====
-    this.nextPageButton = page.locator('button').filter({ has: page.locator('span.sr-only:has-text("Go to next page")') });
-    this.previousPageButton = page.locator('button').filter({ has: page.locator('span.sr-only:has-text("Go to previous page")') });
-    this.paginationInfo = page.locator('text=/Showing \\d+ of \\d+ rows/');
   }
 
   // ===== HELPER METHODS =====
 
   public getTableRow(index: number): Locator {
-    return this.tableRows.nth(index);
+    return this.grid.getRow(index);
   }
 
   public async getSuccessToastCount(): Promise<number> {
@@ -80,37 +73,11 @@ export class OrganizationPage {
     return (await newToast.count()) > 0;
   }
 
-  /**
-   * Check if next page button is enabled
-   */
-  async hasNextPage(): Promise<boolean> {
-    const isVisible = await this.nextPageButton.isVisible().catch(() => false);
-    if (!isVisible) return false;
-    const isDisabled = await this.nextPageButton.isDisabled().catch(() => true);
-    return !isDisabled;
-  }
-
-  /**
-   * Click next page button
-   */
-  async clickNextPage(): Promise<void> {
-    Logger.info('Clicking next page button');
-    await this.nextPageButton.click();
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
-    await this.page.waitForTimeout(1000); // Wait for table to update
-  }
-
   // ===== TABLE METHODS =====
 
   async waitForTableToLoad(): Promise<void> {
-    Logger.info('Waiting for organizations table to load');
-    await this.organizationsTable.waitFor({
-      state: 'visible',
-      timeout: testConfig.timeouts.long,
-    });
-    // Wait for table to have at least one row or timeout
-    await this.page.waitForTimeout(2000);
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+    log.info('Waiting for organizations table to load');
+    await this.grid.waitForLoad();
   }
 
   /**
@@ -119,53 +86,8 @@ export class OrganizationPage {
    * @returns The row Locator or null if not found
    */
   async getOrganizationRowBySlug(slug: string): Promise<Locator | null> {
-    Logger.info(`Looking for organization with slug: ${slug}`);
-    await this.waitForTableToLoad();
-
-    let pageNum = 1;
-    const maxPages = 10; // Safety limit to prevent infinite loops
-
-    while (pageNum <= maxPages) {
-      Logger.info(`Searching on page ${pageNum}...`);
-      
-      const rows = this.tableRows;
-      const rowCount = await rows.count();
-      Logger.info(`Found ${rowCount} organization rows on page ${pageNum}`);
-
-      for (let i = 0; i < rowCount; i++) {
-        const row = rows.nth(i);
-        // Slug is in the 4th column (index 3) - the column with title attribute
-        const slugCell = row.locator('td:nth-child(4) div[title]');
-
-        try {
-          const titleAttr = await slugCell.getAttribute('title');
-          Logger.debug(`Row ${i + 1} title: ${titleAttr}`);
-
-          if (titleAttr && titleAttr.trim() === slug) {
-            Logger.info(`Found organization row for slug: ${slug} at row ${i + 1} on page ${pageNum}`);
-            return row;
-          }
-        } catch (error) {
-          Logger.debug(`Cell not found in row ${i}`, error);
-          continue;
-        }
-      }
-
-      // Check if there's a next page
-      const hasNext = await this.hasNextPage();
-      if (!hasNext) {
-        Logger.info(`No more pages to search. Reached page ${pageNum}`);
-        break;
-      }
-
-      // Go to next page
-      Logger.info(`Moving to next page...`);
-      await this.clickNextPage();
-      pageNum++;
-    }
-
-    Logger.warning(`Organization with slug "${slug}" not found in table after searching ${pageNum} pages`);
-    return null;
+    const row = await this.grid.findRow('slug', slug);
+    return row?.locator ?? null;
   }
 
   /**
@@ -175,7 +97,7 @@ export class OrganizationPage {
    * - Inactive: button with title="Set as active organization" and star icon without fill
    */
   async findOrganizationButtonForSlug(slug: string): Promise<Locator | null> {
-    Logger.info(`Looking for organization button for slug: ${slug}`);
+    log.info(`Looking for organization button for slug: ${slug}`);
 
     const row = await this.getOrganizationRowBySlug(slug);
     if (!row) {
@@ -192,11 +114,11 @@ export class OrganizationPage {
       });
 
       const buttonTitle = await actionButton.getAttribute('title');
-      Logger.info(`Found button with title: "${buttonTitle}" for slug: ${slug}`);
+      log.info(`Found button with title: "${buttonTitle}" for slug: ${slug}`);
       return actionButton;
     } catch (error) {
-      Logger.warning(`No button found for slug: ${slug}`);
-      Logger.debug('Button search error', error);
+      log.warning(`No button found for slug: ${slug}`);
+      log.debug('Button search error', error);
       return null;
     }
   }
@@ -205,7 +127,7 @@ export class OrganizationPage {
    * Find the "Set as active organization" button for a specific organization
    */
   async findUseOrganizationButtonForSlug(slug: string): Promise<Locator | null> {
-    Logger.info(`Looking for "Set as active organization" button for slug: ${slug}`);
+    log.info(`Looking for "Set as active organization" button for slug: ${slug}`);
 
     const row = await this.getOrganizationRowBySlug(slug);
     if (!row) {
@@ -220,17 +142,17 @@ export class OrganizationPage {
         state: 'visible',
         timeout: testConfig.timeouts.short,
       });
-      Logger.info(`Found "Set as active organization" button for slug: ${slug}`);
+      log.info(`Found "Set as active organization" button for slug: ${slug}`);
       return useButton;
     } catch (error) {
-      Logger.warning(`"Set as active organization" button not found for slug: ${slug}`);
-      Logger.debug('Button search error', error);
+      log.warning(`"Set as active organization" button not found for slug: ${slug}`);
+      log.debug('Button search error', error);
       return null;
     }
   }
 
   async clickUseOrganizationForSlug(slug: string): Promise<boolean> {
-    Logger.info(`Clicking "Set as active organization" for slug: ${slug}`);
+    log.info(`Clicking "Set as active organization" for slug: ${slug}`);
 
     const button = await this.findOrganizationButtonForSlug(slug);
     if (!button) {
@@ -240,13 +162,13 @@ export class OrganizationPage {
     // Check if it's already active by title attribute
     const buttonTitle = await button.getAttribute('title');
     if (buttonTitle === 'Active organization') {
-      Logger.info(`Organization "${slug}" is already active, cannot click`);
+      log.info(`Organization "${slug}" is already active, cannot click`);
       return false;
     }
 
     const isDisabled = await button.isDisabled();
     if (isDisabled) {
-      Logger.info(`Organization "${slug}" button is disabled`);
+      log.info(`Organization "${slug}" button is disabled`);
       return false;
     }
 
@@ -257,7 +179,7 @@ export class OrganizationPage {
   }
 
   async isOrganizationActive(slug: string): Promise<boolean> {
-    Logger.info(`Checking if organization "${slug}" is active`);
+    log.info(`Checking if organization "${slug}" is active`);
 
     const button = await this.findOrganizationButtonForSlug(slug);
     if (!button) {
@@ -275,13 +197,13 @@ export class OrganizationPage {
   }
 
   async verifyOrganizationInTable(slug: string): Promise<boolean> {
-    Logger.info(`Verifying organization "${slug}" exists in table`);
+    log.info(`Verifying organization "${slug}" exists in table`);
     const row = await this.getOrganizationRowBySlug(slug);
     return row !== null;
   }
 
   async waitForActiveOrganizationToast(): Promise<boolean> {
-    Logger.info('Waiting for "Active organization changed" toast');
+    log.info('Waiting for "Active organization changed" toast');
 
     try {
       const toast = this.successToast.filter({ hasText: 'Active organization changed' });
@@ -296,11 +218,11 @@ export class OrganizationPage {
         timeout: testConfig.timeouts.short,
       });
 
-      Logger.success('Active organization toast appeared');
+      log.success('Active organization toast appeared');
       return true;
     } catch (error) {
-      Logger.warning('Active organization toast not found');
-      Logger.debug('Toast wait error', error);
+      log.warning('Active organization toast not found');
+      log.debug('Toast wait error', error);
       return false;
     }
   }
@@ -311,20 +233,21 @@ export class OrganizationPage {
       const titleElement = toast.locator('[data-title]');
       return (await titleElement.textContent()) || '';
     } catch (error) {
-      Logger.debug('Could not get toast text', error);
+      log.debug('Could not get toast text', error);
       return '';
     }
   }
 
   async getTotalOrganizationsCount(): Promise<number> {
     await this.waitForTableToLoad();
-    return await this.tableRows.count();
+    const pagination = await this.grid.getPagination();
+    return pagination?.total ?? (await this.grid.getRowCount());
   }
 
   async scrollToOrganization(slug: string): Promise<void> {
     const row = await this.getOrganizationRowBySlug(slug);
     if (row) {
-      Logger.info(`Scrolling to organization row for slug: ${slug}`);
+      log.info(`Scrolling to organization row for slug: ${slug}`);
       await row.scrollIntoViewIfNeeded();
       await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
     }
@@ -345,22 +268,22 @@ export class OrganizationPage {
   }
 
   async fillName(name: string): Promise<void> {
-    Logger.info(`Filling organization name with: ${name}`);
+    log.info(`Filling organization name with: ${name}`);
     await this.nameInput.fill(name);
     await this.nameInput.blur(); // Trigger validation
   }
 
   async fillSlug(slug: string): Promise<void> {
-    Logger.info(`Filling organization slug with: ${slug}`);
+    log.info(`Filling organization slug with: ${slug}`);
     await this.slugInput.fill(slug);
     await this.slugInput.blur(); // Trigger validation
   }
 
   async uploadLogo(imagePath: string): Promise<void> {
-    Logger.info(`Uploading logo from: ${imagePath}`);
+    log.info(`Uploading logo from: ${imagePath}`);
 
     const absolutePath = path.resolve(process.cwd(), imagePath);
-    Logger.info(`Absolute path: ${absolutePath}`);
+    log.info(`Absolute path: ${absolutePath}`);
 
     await this.logoInput.setInputFiles(absolutePath);
 
@@ -369,12 +292,12 @@ export class OrganizationPage {
   }
 
   async clickSubmit(): Promise<void> {
-    Logger.info('Clicking Submit button');
+    log.info('Clicking Submit button');
     await this.submitButton.click();
   }
 
   async clickReset(): Promise<void> {
-    Logger.info('Clicking Reset button');
+    log.info('Clicking Reset button');
     await this.resetButton.click();
   }
 
@@ -382,21 +305,16 @@ export class OrganizationPage {
     orgData: OrganizationData,
     logoPath: string = 'test-logo.png'
   ): Promise<void> {
-    Logger.step(1, 'Fill organization name');
-    await this.fillName(orgData.name);
-
-    Logger.step(2, 'Fill organization slug');
-    await this.fillSlug(orgData.slug);
-
-    Logger.step(3, 'Upload organization logo');
-    await this.uploadLogo(logoPath);
+    await TestStep.run('Fill organization name', () => this.fillName(orgData.name));
+    await TestStep.run('Fill organization slug', () => this.fillSlug(orgData.slug));
+    await TestStep.run('Upload organization logo', () => this.uploadLogo(logoPath));
   }
 
   async createOrganization(
     orgData: OrganizationData,
     logoPath: string = 'test-logo.png'
   ): Promise<void> {
-    Logger.info(`Creating organization: ${orgData.name}`);
+    log.info(`Creating organization: ${orgData.name}`);
 
     await this.fillOrganizationForm(orgData, logoPath);
     await this.clickSubmit();
@@ -409,13 +327,13 @@ export class OrganizationPage {
       });
       return true;
     } catch (error) {
-      Logger.debug('Not on create page', error);
+      log.debug('Not on create page', error);
       return false;
     }
   }
 
   async verifyPageTitle(): Promise<Locator> {
-    Logger.info('Verifying page title');
+    log.info('Verifying page title');
     return this.pageTitle;
   }
 
@@ -427,13 +345,13 @@ export class OrganizationPage {
       });
       return true;
     } catch (error) {
-      Logger.debug('Success toast not visible', error);
+      log.debug('Success toast not visible', error);
       return false;
     }
   }
 
   async waitForSuccessToast(): Promise<void> {
-    Logger.info('Waiting for success toast');
+    log.info('Waiting for success toast');
     await this.successToast.waitFor({
       state: 'visible',
       timeout: testConfig.timeouts.extraLong,
@@ -445,7 +363,7 @@ export class OrganizationPage {
       const titleElement = this.successToast.locator('[data-title]');
       return (await titleElement.textContent()) || '';
     } catch (error) {
-      Logger.debug('Could not get toast text', error);
+      log.debug('Could not get toast text', error);
       return '';
     }
   }
@@ -471,7 +389,7 @@ export class OrganizationPage {
       });
       return true;
     } catch (error) {
-      Logger.debug('Submit button not visible', error);
+      log.debug('Submit button not visible', error);
       return false;
     }
   }
@@ -484,7 +402,7 @@ export class OrganizationPage {
       });
       return true;
     } catch (error) {
-      Logger.debug('Reset button not visible', error);
+      log.debug('Reset button not visible', error);
       return false;
     }
   }
@@ -496,19 +414,16 @@ export class OrganizationPage {
   }
 
   async verifyNavigationAfterSubmit(): Promise<boolean> {
-    Logger.info('Verifying navigation after form submission');
+    log.info('Verifying navigation after form submission');
 
     try {
-      // Wait a moment for the submission to process
-      await this.page.waitForTimeout(1000);
-
       // First, check if we're still on the create page
       const currentUrl = this.page.url();
-      Logger.info(`Current URL after submission: ${currentUrl}`);
+      log.info(`Current URL after submission: ${currentUrl}`);
 
       // If we're already on the organization list page, success!
       if (currentUrl.includes('/organization') && !currentUrl.includes('/create')) {
-        Logger.info('Already on organization list page');
+        log.info('Already on organization list page');
         return true;
       }
 
@@ -518,7 +433,7 @@ export class OrganizationPage {
         // Wait for success toast
         this.successToast.waitFor({ state: 'visible', timeout: 10000 })
           .then(() => {
-            Logger.info('Success toast appeared');
+            log.info('Success toast appeared');
             return true;
           })
           .catch(() => false),
@@ -526,36 +441,34 @@ export class OrganizationPage {
         // Wait for redirect to organization list
         this.page.waitForURL('**/organization', { timeout: 10000 })
           .then(() => {
-            Logger.info('Redirected to organization list');
+            log.info('Redirected to organization list');
             return true;
           })
           .catch(() => false),
       ]);
 
       if (result) {
-        // Add a small delay to let the page stabilize
-        await this.page.waitForTimeout(500);
         return true;
       }
 
       // One final check - maybe the toast appeared but we missed it
       const hasToast = await this.isSuccessToastVisible();
       if (hasToast) {
-        Logger.info('Success toast found on final check');
+        log.info('Success toast found on final check');
         return true;
       }
 
       // Check URL one more time
       const finalUrl = this.page.url();
       if (finalUrl.includes('/organization') && !finalUrl.includes('/create')) {
-        Logger.info(`Redirected to: ${finalUrl}`);
+        log.info(`Redirected to: ${finalUrl}`);
         return true;
       }
 
-      Logger.warning(`Submission verification failed. Final URL: ${finalUrl}`);
+      log.warning(`Submission verification failed. Final URL: ${finalUrl}`);
       return false;
     } catch (error) {
-      Logger.error('Error verifying navigation after submit', error);
+      log.error('Error verifying navigation after submit', error);
       return false;
     }
   }
@@ -569,13 +482,13 @@ export class OrganizationPage {
   // ===== NAVIGATION METHODS =====
 
   async navigateToOrganizationList(): Promise<void> {
-    Logger.info('Navigating to organization list page');
+    log.info('Navigating to organization list page');
     await this.page.goto('/organization');
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
   }
 
   async clickCreateOrganization(): Promise<void> {
-    Logger.info('Clicking Create Organization button');
+    log.info('Clicking Create Organization button');
     await this.createButton.click();
   }
 
@@ -587,7 +500,7 @@ export class OrganizationPage {
       });
       return true;
     } catch (error) {
-      Logger.debug('Create button not visible', error);
+      log.debug('Create button not visible', error);
       return false;
     }
   }
@@ -1,7 +1,10 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
+import { TestStep } from '../utils/test-step';
 import testConfig from '../config/test-config';
 
+const log = Logger.for('pages');
+
 /**
  * Sign In Page Object Model
  * Handles all interactions with the sign-in page
@@ -41,7 +44,7 @@ export class SignInPage {
    * @param email - Email address to enter
    */
   async fillEmail(email: string): Promise<void> {
-    Logger.info(`Filling email with: ${email}`);
+    log.info(`Filling email with: ${email}`);
     await this.emailInput.fill(email);
     // Wait for input to be filled
     await this.emailInput.blur();
@@ -52,7 +55,7 @@ export class SignInPage {
    * @param password - Password to enter
    */
   async fillPassword(password: string): Promise<void> {
-    Logger.info('Filling password');
+    log.info('Filling password');
     await this.passwordInput.fill(password);
     // Wait for input to be filled
     await this.passwordInput.blur();
@@ -67,15 +70,13 @@ export class SignInPage {
 
     // Only click if the current state differs from desired state
     if (check && !isChecked) {
-      Logger.info('Checking Remember Me checkbox');
+      log.info('Checking Remember Me checkbox');
       await this.rememberMeCheckbox.check();
     } else if (!check && isChecked) {
-      Logger.info('Unchecking Remember Me checkbox');
+      log.info('Unchecking Remember Me checkbox');
       await this.rememberMeCheckbox.uncheck();
     } else {
-      Logger.info(
-        `Remember Me checkbox already in desired state: ${check ? 'checked' : 'unchecked'}`
-      );
+      log.info(`Remember Me checkbox already in desired state: ${check ? 'checked' : 'unchecked'}`);
     }
   }
 
@@ -83,7 +84,7 @@ export class SignInPage {
    * Click the Login button
    */
   async clickLogin(): Promise<void> {
-    Logger.info('Clicking Login button');
+    log.info('Clicking Login button');
     await this.loginButton.click();
   }
 
@@ -96,23 +97,23 @@ export class SignInPage {
    * @param rememberMe - Whether to check Remember Me (default: true)
    */
   async signIn(email: string, password: string, rememberMe: boolean = true): Promise<void> {
-    Logger.step(1, 'Fill in sign-in credentials');
-    await this.fillEmail(email);
-    await this.fillPassword(password);
+    await TestStep.run('Fill in sign-in credentials', async () => {
+      await this.fillEmail(email);
+      await this.fillPassword(password);
 
-    if (rememberMe) {
-      await this.toggleRememberMe(true);
-    }
+      if (rememberMe) {
+        await this.toggleRememberMe(true);
+      }
+    });
 
-    Logger.step(2, 'Submit sign-in form');
-    await this.clickLogin();
+    await TestStep.run('Submit sign-in form', () => this.clickLogin());
   }
 
   /**
    * Navigate to the Sign Up tab
    */
   async navigateToSignUp(): Promise<void> {
-    Logger.info('Clicking Sign Up tab');
+    log.info('Clicking Sign Up tab');
     await this.signUpTab.click();
     // Wait for tab content to load
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
@@ -123,7 +124,7 @@ export class SignInPage {
    * @returns Locator for the sign-in title element
    */
   async verifySignInTitle(): Promise<Locator> {
-    Logger.info('Verifying Sign In title');
+    log.info('Verifying Sign In title');
     return this.signInTitle;
   }
 
@@ -151,7 +152,7 @@ export class SignInPage {
       const titleText = await this.getSignInTitleText();
       return titleText.includes('Sign In');
     } catch (error) {
-      Logger.debug('Not on sign-in page', error);
+      log.debug('Not on sign-in page', error);
       return false;
     }
   }
@@ -161,7 +162,7 @@ export class SignInPage {
    * Uses baseURL from Playwright config
    */
   async navigateToHome(): Promise<void> {
-    Logger.info('Navigating to home page');
+    log.info('Navigating to home page');
     await this.page.goto('/');
     // Wait for navigation to complete
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
@@ -172,7 +173,7 @@ export class SignInPage {
    * @param timeout - Maximum time to wait (default: from config)
    */
   async waitForDashboardRedirect(timeout: number = testConfig.timeouts.long): Promise<void> {
-    Logger.info('Waiting for redirect to dashboard');
+    log.info('Waiting for redirect to dashboard');
     await this.page.waitForURL('**/dashboard', { timeout });
   }
 }
@@ -1,8 +1,11 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
+import { TestStep } from '../utils/test-step';
 import { UserData } from '../utils/test-data-generator';
 import testConfig from '../config/test-config';
 
+const log = Logger.for('pages');
+
 /**
  * Sign Up Page Object Model
  * Handles all interactions with the user registration/sign-up page
@@ -29,58 +32,60 @@ export class SignUpPage {
   }
 
   async fillFirstName(firstName: string): Promise<void> {
-    Logger.info(`Filling first name with: ${firstName}`);
+    log.info(`Filling first name with: ${firstName}`);
     await this.firstNameInput.fill(firstName);
     await this.firstNameInput.blur();
   }
 
   async fillLastName(lastName: string): Promise<void> {
-    Logger.info(`Filling last name with: ${lastName}`);
+    log.info(`Filling last name with: ${lastName}`);
     await this.lastNameInput.fill(lastName);
     await this.lastNameInput.blur();
   }
 
   async fillEmail(email: string): Promise<void> {
-    Logger.info(`Filling email with: ${email}`);
+    log.info(`Filling email with: ${email}`);
     await this.emailInput.fill(email);
     await this.emailInput.blur();
   }
 
   async fillPassword(password: string): Promise<void> {
-    Logger.info('Filling password');
+    log.info('Filling password');
     await this.passwordInput.fill(password);
     await this.passwordInput.blur();
   }
 
   async fillPasswordConfirmation(password: string): Promise<void> {
-    Logger.info('Filling password confirmation');
+    log.info('Filling password confirmation');
     await this.passwordConfirmationInput.fill(password);
     await this.passwordConfirmationInput.blur();
   }
 
   async clickCreateAccount(): Promise<void> {
-    Logger.info('Clicking Create Account button');
+    log.info('Clicking Create Account button');
     await this.createAccountButton.click();
   }
 
   async signUp(userData: UserData): Promise<void> {
-    Logger.step(1, 'Fill in sign-up form');
-    Logger.info(`Registering user: ${userData.email}`);
+    await TestStep.run('Fill in sign-up form', async () => {
+      log.info(`Registering user: ${userData.email}`);
 
-    await this.fillFirstName(userData.firstName);
-    await this.fillLastName(userData.lastName);
-    await this.fillEmail(userData.email);
-    await this.fillPassword(userData.password);
-    await this.fillPasswordConfirmation(userData.password);
+      await this.fillFirstName(userData.firstName);
+      await this.fillLastName(userData.lastName);
+      await this.fillEmail(userData.email);
+      await this.fillPassword(userData.password);
+      await this.fillPasswordConfirmation(userData.password);
+    });
 
-    Logger.step(2, 'Submit sign-up form');
-    await this.clickCreateAccount();
+    await TestStep.run('Submit sign-up form', async () => {
+      await this.clickCreateAccount();
 
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+      await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+    });
   }
 
   async verifySignUpTitle(): Promise<Locator> {
-    Logger.info('Verifying Sign Up title');
+    log.info('Verifying Sign Up title');
     return this.signUpTitle;
   }
 
@@ -92,7 +97,7 @@ export class SignUpPage {
       });
       return true;
     } catch (error) {
-      Logger.debug('Not on sign-up page', error);
+      log.debug('Not on sign-up page', error);
       return false;
     }
   }
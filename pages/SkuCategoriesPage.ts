@@ -1,178 +1,107 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
-import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
+import { Dialog } from './components/Dialog';
+import { Select } from './components/Select';
+import { Combobox } from './components/Combobox';
+import { IfRateNotFoundUse } from '../utils/entity-generators';
+
+const log = Logger.for('pages');
 
 /**
  * SKU Categories Page Object Model
  */
 export class SkuCategoriesPage {
-  private readonly navLink: Locator;
   private readonly createButton: Locator;
+  readonly createDialog: Dialog;
   private readonly displayNameInput: Locator;
-  private readonly ifRateNotFoundUseTrigger: Locator;
-  private readonly supplierGroupTrigger: Locator;
-  private readonly table: Locator;
-  private readonly tableRows: Locator;
+  readonly ifRateNotFoundUse: Select;
+  readonly supplierGroup: Select;
+  private readonly supplierTriggers: Locator;
+  readonly grid: DataGrid<'name'>;
 
   constructor(public page: Page) {
-    this.navLink = page.locator('a[data-slot="sidebar-menu-sub-button"][href="/sku-categories"]');
     this.createButton = page
       .locator('button[data-slot="button"]')
       .filter({ hasText: 'Create' })
       .first();
-    this.displayNameInput = page.locator('input#displayName');
-    this.ifRateNotFoundUseTrigger = page.locator('button[data-slot="select-trigger"]#ifRateNotFoundUse');
-    this.supplierGroupTrigger = page.locator('button[data-slot="select-trigger"]#supplierGroupId');
-    this.table = page.locator('table[data-testid="data-grid"]');
-    this.tableRows = page.locator('table[data-testid="data-grid"] tbody tr');
-  }
-
-  async navigateToSkuCategories(): Promise<void> {
-    Logger.info('Clicking SKU Categories sidebar link');
-    await this.navLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.navLink.click();
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-    Logger.success('Navigated to SKU Categories page');
+    this.createDialog = new Dialog(page, { opener: this.createButton });
+    this.displayNameInput = this.createDialog.root.locator('input#displayName');
+    this.ifRateNotFoundUse = new Select(
+      page,
+      { trigger: page.locator('button[data-slot="select-trigger"]#ifRateNotFoundUse') },
+      'If Rate Not Found Use'
+    );
+    this.supplierGroup = new Select(
+      page,
+      {
+        trigger: page.locator('button[data-slot="select-trigger"]#supplierGroupId'),
+        native: page.locator('select[name="supplierGroupId"]'),
+      },
+      'Supplier Group'
+    );
+    // One "Select a supplier" combobox per supplier row
+    this.supplierTriggers = page
+      .locator('button[data-slot="popover-trigger"]')
+      .filter({ hasText: 'Select a supplier' });
+    this.grid = new DataGrid(page, { name: /Category/i });
   }
 
   async openCreateDialog(): Promise<void> {
-    await this.createButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.createButton.click();
-    await this.displayNameInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    Logger.info('Create SKU Category dialog opened');
+    await this.createDialog.open();
+    log.info('Create SKU Category dialog opened');
   }
 
   async fillDisplayName(name: string): Promise<void> {
-    await this.displayNameInput.fill(name);
-    Logger.info(`Filled SKU Category name: ${name}`);
+    await this.createDialog.fill(this.displayNameInput, name);
+    log.info(`Filled SKU Category name: ${name}`);
   }
 
-  async selectIfRateNotFoundUse(option: 'Minimum' | 'Average' | 'Maximum'): Promise<void> {
-    await this.ifRateNotFoundUseTrigger.click();
-    await this.page
-      .locator(`[data-slot="select-content"] [data-slot="select-item"]`)
-      .filter({ hasText: option })
-      .click();
-    Logger.info(`Selected "If Rate Not Found Use": ${option}`);
+  async selectIfRateNotFoundUse(option: IfRateNotFoundUse): Promise<void> {
+    await this.ifRateNotFoundUse.selectByLabel(option);
+    log.info(`Selected "If Rate Not Found Use": ${option}`);
   }
 
   async selectSupplierGroup(groupName: string): Promise<void> {
-    await this.supplierGroupTrigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.supplierGroupTrigger.click();
-    await this.page
-      .locator(`[data-slot="select-content"] [data-slot="select-item"]`)
-      .filter({ hasText: groupName })
-      .click();
-    Logger.info(`Selected Supplier Group: ${groupName}`);
+    await this.supplierGroup.selectByLabel(groupName);
+    log.info(`Selected Supplier Group: ${groupName}`);
   }
 
   /**
    * Select a supplier from the supplier dropdown
    * The dropdown appears when clicking "Select a supplier" and shows a list of supplier names
+   * @param supplierName - Supplier to select; the first one listed when omitted
    */
-  async selectSupplier(rowIndex: number = 0): Promise<void> {
-    // Find all "Select a supplier" popover triggers (there may be multiple rows)
-    const supplierTriggers = this.page.locator(
-      'button[data-slot="popover-trigger"]'
-    ).filter({ hasText: 'Select a supplier' });
-    
-    const triggerCount = await supplierTriggers.count();
-    Logger.info(`Found ${triggerCount} "Select a supplier" triggers`);
+  async selectSupplier(rowIndex: number = 0, supplierName?: string): Promise<void> {
+    const triggerCount = await this.supplierTriggers.count();
+    log.info(`Found ${triggerCount} "Select a supplier" triggers`);
     
     if (triggerCount === 0) {
-      Logger.warning('No "Select a supplier" triggers found');
+      log.warning('No "Select a supplier" triggers found');
       return;
     }
     
-    // Use the trigger at the specified index
-    const trigger = supplierTriggers.nth(rowIndex);
-    await trigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await trigger.click();
-    Logger.info('Clicked "Select a supplier" trigger');
-    
-    // Wait for the popover/dropdown to appear
-    await this.page.waitForTimeout(500);
-    
-    // The dropdown appears to use a popover with a list of items
-    // Look for any clickable items that aren't "Close"
-    const supplierOption = this.page
-      .locator('[role="option"], [role="menuitem"], [cmdk-item], [data-slot="select-item"]')
-      .filter({ hasNotText: 'Close' })
-      .first();
-    
-    // Wait for option to be visible and click it
-    await supplierOption.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    const supplierName = await supplierOption.textContent();
-    await supplierOption.click();
-    Logger.info(`Selected supplier: ${supplierName}`);
-    
-    // Wait a moment for the selection to register
-    await this.page.waitForTimeout(300);
-    
-    // Close the popover by clicking outside or on Close button if present
-    const closeButton = this.page.locator('[cmdk-item]').filter({ hasText: 'Close' });
-    if (await closeButton.isVisible().catch(() => false)) {
-      await closeButton.click();
-      Logger.info('Closed supplier dropdown');
-    } else {
-      // Click outside to close
-      await this.page.keyboard.press('Escape');
-      Logger.info('Pressed Escape to close dropdown');
+    // The list may end with a "Close" item, which is not a supplier
+    const supplier = new Combobox(this.page, this.supplierTriggers.nth(rowIndex), 'Supplier', ['Close']);
+    if (supplierName) {
+      await supplier.selectByLabel(supplierName, { search: true });
+      log.info(`Selected supplier: ${supplierName}`);
+      return;
     }
+    const firstSupplier = await supplier.selectFirst();
+    log.info(`Selected supplier: ${firstSupplier}`);
   }
 
   async submitCreateDialog(): Promise<void> {
-    const submitButton = this.page.locator('button[type="submit"]').filter({ hasText: 'Create' });
-    await submitButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await submitButton.click();
-    await this.displayNameInput.waitFor({ state: 'hidden', timeout: testConfig.timeouts.medium });
-    Logger.success('Create SKU Category dialog submitted');
+    await this.createDialog.submitAndWaitForClose();
+    log.success('Create SKU Category dialog submitted');
   }
 
   async waitForTableToLoad(): Promise<void> {
-    await this.table.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
+    await this.grid.waitForLoad();
   }
 
   async findRowByName(name: string, maxPages: number = 10): Promise<boolean> {
-    let pageNum = 1;
-
-    while (pageNum <= maxPages) {
-      Logger.info(`Searching for "${name}" on page ${pageNum}...`);
-
-      const rowCount = await this.tableRows.count();
-
-      for (let i = 0; i < rowCount; i++) {
-        const row = this.tableRows.nth(i);
-        const nameCell = row.locator('td:nth-child(2) div[title]');
-
-        try {
-          const cellText = await nameCell.getAttribute('title');
-          if (cellText && cellText.trim() === name) {
-            Logger.info(`Found "${name}" at row ${i + 1} on page ${pageNum}`);
-            return true;
-          }
-        } catch {
-          continue;
-        }
-      }
-
-      const nextButton = this.page
-        .locator('button')
-        .filter({ has: this.page.locator('span.sr-only:has-text("Go to next page")') });
-      const hasNext = await nextButton.isVisible().catch(() => false);
-      const isDisabled = await nextButton.isDisabled().catch(() => true);
-
-      if (!hasNext || isDisabled) {
-        Logger.info(`No more pages. Reached page ${pageNum}`);
-        break;
-      }
-
-      await nextButton.click();
-      await this.page.waitForLoadState('networkidle');
-      await this.page.waitForTimeout(1000);
-      pageNum++;
-    }
-
-    return false;
+    return this.grid.rowExists('name', name, maxPages);
   }
-}
\ No newline at end of file
+}
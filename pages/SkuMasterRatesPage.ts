@@ -1,6 +1,13 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
+import { Wait } from '../utils/wait';
 import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
+import { Select } from './components/Select';
+import { ScannedRow, VirtualScrollScanner } from './components/VirtualScrollScanner';
+import { ToastWatcher } from './components/ToastWatcher';
+
+const log = Logger.for('pages');
 
 /**
  * SKU Master Rates Page Object Model
@@ -13,21 +20,34 @@ import testConfig from '../config/test-config';
  *    rows as the thing to verify.
  *
  * 2. The table uses virtual scrolling — only ~30 rows are in the DOM at any
- *    time. We therefore NEVER scan raw rows. Instead we use the built-in
- *    Supplier filter dropdown (top of page) to reduce the visible set to just
- *    the supplier we care about, then confirm the table is non-empty.
+ *    time, so raw rows are never scanned directly. Quick presence checks use
+ *    the built-in Supplier filter dropdown to reduce the visible set; exact
+ *    value checks and full-grid reads go through the VirtualScrollScanner,
+ *    which scrolls the container and de-duplicates rows by SKU + supplier.
+ */
+
+type MasterRateColumn = 'sku' | 'supplier' | 'rate';
+
+/**
+ * A rate as shown in the grid
  */
+export interface MasterRateGridRow {
+  skuName: string;
+  supplierName: string;
+  /** Parsed rate, or null when the cell is empty */
+  rate: number | null;
+}
 export class SkuMasterRatesPage {
-  private readonly navLink: Locator;
   private readonly addSupplierToCategoryButton: Locator;
   private readonly skuCategoryTrigger: Locator;
-  private readonly supplierTrigger: Locator;
+  readonly skuCategory: Select;
+  readonly supplier: Select;
+  readonly supplierFilter: Select;
   private readonly addSupplierButton: Locator;
-  private readonly table: Locator;
+  readonly grid: DataGrid<MasterRateColumn>;
+  private readonly scanner: VirtualScrollScanner<MasterRateColumn>;
 
   constructor(public page: Page) {
-    this.navLink = page.locator('a[data-slot="sidebar-menu-sub-button"][href="/sku-master-rates"]');
-
     this.addSupplierToCategoryButton = page
       .locator('button[data-slot="button"]')
       .filter({ hasText: 'Add Supplier to Category' })
@@ -40,103 +60,85 @@ export class SkuMasterRatesPage {
       .filter({ hasText: 'Select a category' })
       .first();
 
-    this.supplierTrigger = dialog
-      .locator('button[data-slot="select-trigger"]')
-      .filter({ hasText: 'Select a supplier' })
-      .first();
+    this.skuCategory = new Select(page, { trigger: this.skuCategoryTrigger }, 'SKU Category');
+
+    this.supplier = new Select(
+      page,
+      {
+        trigger: dialog
+          .locator('button[data-slot="select-trigger"]')
+          .filter({ hasText: 'Select a supplier' })
+          .first(),
+      },
+      'Supplier'
+    );
+
+    // The filter bar's select, found next to its "Filter by supplier" label
+    this.supplierFilter = new Select(
+      page,
+      {
+        trigger: page
+          .locator('div')
+          .filter({ has: page.locator('text="Filter by supplier"') })
+          .last()
+          .locator('button[data-slot="select-trigger"]')
+          .first(),
+      },
+      'Supplier filter'
+    );
 
     this.addSupplierButton = dialog
       .locator('button[data-slot="button"]')
       .filter({ hasText: 'Add Supplier' })
       .first();
 
-    this.table = page.locator('table[data-testid="data-grid"]');
-  }
-
-  // ===== NAVIGATION =====
-
-  async navigateToSkuMasterRates(): Promise<void> {
-    Logger.info('Clicking SKU Master Rates sidebar link');
-    await this.navLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.navLink.click();
-    await this.page.waitForURL(/\/sku-master-rates(\?.*)?$/, { timeout: testConfig.timeouts.medium });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-    Logger.success('Navigated to SKU Master Rates page');
+    this.grid = new DataGrid(page, { sku: 'SKU', supplier: 'Supplier', rate: 'Rate' });
+    this.scanner = new VirtualScrollScanner(
+      this.grid,
+      (values) => `${values.sku}\u0000${values.supplier}`
+    );
   }
 
   // ===== ADD SUPPLIER TO CATEGORY =====
 
   async clickAddSupplierToCategory(): Promise<void> {
-    Logger.info('Clicking Add Supplier to Category button');
+    log.info('Clicking Add Supplier to Category button');
     await this.addSupplierToCategoryButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
     await this.addSupplierToCategoryButton.click();
     await this.page.locator('[role="dialog"]').waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
     await this.skuCategoryTrigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    Logger.success('Add Supplier dialog opened');
+    log.success('Add Supplier dialog opened');
   }
 
   async selectRandomSkuCategory(): Promise<string> {
-    Logger.info('Selecting a random SKU Category');
-    await this.skuCategoryTrigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.skuCategoryTrigger.click();
-    await this.page.waitForTimeout(500);
-
-    const options = this.page.locator('[data-slot="select-item"]');
-    const optionCount = await options.count();
-    if (optionCount === 0) throw new Error('No SKU Categories found in the dropdown');
-
-    let randomIndex = Math.floor(Math.random() * optionCount);
-    const firstOptionText = await options.first().textContent();
-    if (firstOptionText?.includes('Select a category') && optionCount > 1) {
-      randomIndex = Math.floor(Math.random() * (optionCount - 1)) + 1;
-    }
-
-    const selectedOption = options.nth(randomIndex);
-    const categoryName = await selectedOption.textContent();
-    await selectedOption.click();
-
-    Logger.info(`Selected SKU Category: ${categoryName?.trim()}`);
-    return categoryName?.trim() || '';
+    log.info('Selecting a random SKU Category');
+    const categoryName = await this.skuCategory.selectRandom(/^Select a category/);
+    log.info(`Selected SKU Category: ${categoryName}`);
+    return categoryName;
   }
 
   async selectRandomSupplier(): Promise<string> {
-    Logger.info('Selecting a random Supplier');
-    await this.supplierTrigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.supplierTrigger.click();
-    await this.page.waitForTimeout(500);
-
-    const options = this.page.locator('[data-slot="select-item"]');
-    const optionCount = await options.count();
-    if (optionCount === 0) throw new Error('No Suppliers found in the dropdown');
-
-    let randomIndex = Math.floor(Math.random() * optionCount);
-    const firstOptionText = await options.first().textContent();
-    if (firstOptionText?.includes('Select a supplier') && optionCount > 1) {
-      randomIndex = Math.floor(Math.random() * (optionCount - 1)) + 1;
-    }
-
-    const selectedOption = options.nth(randomIndex);
-    const supplierName = await selectedOption.textContent();
-    await selectedOption.click();
-
-    Logger.info(`Selected Supplier: ${supplierName?.trim()}`);
-    return supplierName?.trim() || '';
+    log.info('Selecting a random Supplier');
+    const supplierName = await this.supplier.selectRandom(/^Select a supplier/);
+    log.info(`Selected Supplier: ${supplierName}`);
+    return supplierName;
   }
 
   async clickAddSupplier(): Promise<void> {
-    Logger.info('Clicking Add Supplier button');
+    log.info('Clicking Add Supplier button');
     await this.addSupplierButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
     await this.addSupplierButton.click();
     // Dialog closes on success OR stays open on validation error.
     // We give it up to medium timeout; if it stays open we just continue.
     await this.page.locator('[role="dialog"]')
       .waitFor({ state: 'hidden', timeout: testConfig.timeouts.medium })
-      .catch(() => Logger.warning('Add Supplier dialog may still be open, continuing...'));
-    Logger.success('Add Supplier dialog submitted');
+      .catch(() => log.warning('Add Supplier dialog may still be open, continuing...'));
+    log.success('Add Supplier dialog submitted');
   }
 
   /**
-   * Full flow: open dialog → pick random category → pick random supplier → submit.
+   * Full flow: open dialog → pick category → pick supplier → submit. Both are picked at
+   * random unless `selection` names them.
    *
    * Returns:
    *   categoryName  - the category that was selected
@@ -144,23 +146,32 @@ export class SkuMasterRatesPage {
    *   alreadyExists - true when the app showed the "already has rates" toast,
    *                   meaning no new rows were created but existing rows are fine
    */
-  async addSupplierToCategory(): Promise<{
+  async addSupplierToCategory(selection?: { categoryName: string; supplierName: string }): Promise<{
     categoryName: string;
     supplierName: string;
     alreadyExists: boolean;
   }> {
     await this.clickAddSupplierToCategory();
-    const categoryName = await this.selectRandomSkuCategory();
-    const supplierName = await this.selectRandomSupplier();
+    let categoryName: string;
+    let supplierName: string;
+    if (selection) {
+      ({ categoryName, supplierName } = selection);
+      await this.skuCategory.selectByLabel(categoryName);
+      await this.supplier.selectByLabel(supplierName);
+    } else {
+      categoryName = await this.selectRandomSkuCategory();
+      supplierName = await this.selectRandomSupplier();
+    }
     await this.clickAddSupplier();
 
-    // Give the app a moment to either show the "already exists" toast or
-    // commit the new rows to the database.
-    await this.page.waitForTimeout(1500);
+    // The app answers with a toast either way: "already has rates" or a success message
+    await Wait.forToast(this.page).catch(() =>
+      log.warning('No toast after adding the supplier, continuing...')
+    );
 
     const alreadyExists = await this.ratesAlreadyExistToastVisible(supplierName, categoryName);
     if (alreadyExists) {
-      Logger.info(`Rates already exist for "${supplierName}" in "${categoryName}" — no new rows created`);
+      log.info(`Rates already exist for "${supplierName}" in "${categoryName}" — no new rows created`);
     }
 
     return { categoryName, supplierName, alreadyExists };
@@ -174,65 +185,37 @@ export class SkuMasterRatesPage {
    * We do a loose contains-check so minor punctuation differences don't matter.
    */
   async ratesAlreadyExistToastVisible(supplierName: string, categoryName: string): Promise<boolean> {
-    try {
-      // Toast can appear in a [data-title] element or any div with matching text.
-      // We check broadly for any element containing both key strings.
-      const toast = this.page.locator('body').filter({
-        hasText: new RegExp(`already has rates.*${escapeRegex(categoryName)}`, 'i'),
-      });
-      await toast.waitFor({ state: 'visible', timeout: 2000 });
-      Logger.info('Detected "already has rates" toast');
-      return true;
-    } catch {
-      return false;
+    const text = new RegExp(`already has rates.*${escapeRegex(categoryName)}`, 'i');
+    const watcher = ToastWatcher.for(this.page);
+
+    // With a watcher the toast is found even if it already faded, and claiming it keeps it
+    // from failing the test should the app show it as an error
+    const found = await (watcher
+      ? watcher.expectToast({ text }, { timeout: 2000 })
+      : Wait.forToast(this.page, text, { timeout: 2000 })
+    ).then(
+      () => true,
+      () => false
+    );
+    if (found) {
+      log.info('Detected "already has rates" toast');
     }
+    return found;
   }
 
   // ===== TABLE HELPERS =====
 
   async waitForTableToLoad(): Promise<void> {
-    Logger.info('Waiting for SKU Master Rates table to load');
-    await this.table.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
-    await this.page.waitForTimeout(1000);
+    log.info('Waiting for SKU Master Rates table to load');
+    await this.grid.waitForLoad();
   }
 
   // ===== SUPPLIER FILTER HELPERS =====
 
-  /**
-   * Find the Supplier filter trigger in the page's filter bar.
-   * We locate the wrapper that also contains the "Filter by supplier" label.
-   */
-  private async _getSupplierFilterTrigger(): Promise<Locator> {
-    const container = this.page.locator('div').filter({
-      has: this.page.locator('text="Filter by supplier"'),
-    }).last();
-
-    const trigger = container.locator('button[data-slot="select-trigger"]').first();
-    await trigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    return trigger;
-  }
-
-  /**
-   * Click a named option in the currently-open select portal.
-   * Tries [role="option"] first, falls back to [data-slot="select-item"].
-   */
-  private async _clickSelectOption(optionText: string): Promise<void> {
-    const byRole = this.page.locator('[role="option"]').filter({ hasText: optionText }).first();
-    const bySlot = this.page.locator('[data-slot="select-item"]').filter({ hasText: optionText }).first();
-
-    try {
-      await byRole.waitFor({ state: 'visible', timeout: 3000 });
-      await byRole.click();
-    } catch {
-      await bySlot.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-      await bySlot.click();
-    }
-  }
-
   private async _waitForTableToFilter(): Promise<void> {
+    // networkidle covers the filter request; the grid then settles on the filtered rows
     await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
-    await this.page.waitForTimeout(800);
+    await this.grid.waitForLoad();
   }
 
   /**
@@ -240,23 +223,18 @@ export class SkuMasterRatesPage {
    * section-header row or virtual-scroll spacer — both use td[colspan]).
    */
   private async _tableHasDataRows(): Promise<boolean> {
-    const dataRows = this.page.locator(
-      'table[data-testid="data-grid"] tbody tr:not(:has(td[colspan]))'
-    );
-    const count = await dataRows.count();
-    Logger.info(`Data rows visible after filter: ${count}`);
+    const count = await this.grid.getRowCount();
+    log.info(`Data rows visible after filter: ${count}`);
     return count > 0;
   }
 
-  private async _resetSupplierFilter(trigger: Locator): Promise<void> {
+  private async _resetSupplierFilter(): Promise<void> {
     try {
-      await trigger.click();
-      await this.page.waitForTimeout(400);
-      await this._clickSelectOption('All');
+      await this.supplierFilter.selectByLabel('All');
       await this._waitForTableToFilter();
-      Logger.info('Supplier filter reset to All');
+      log.info('Supplier filter reset to All');
     } catch {
-      Logger.warning('Could not reset supplier filter — continuing anyway');
+      log.warning('Could not reset supplier filter — continuing anyway');
     }
   }
 
@@ -266,23 +244,19 @@ export class SkuMasterRatesPage {
    * This sidesteps virtual scrolling entirely.
    */
   async anyRateExistsForSupplier(supplierName: string): Promise<boolean> {
-    Logger.info(`Filtering table by Supplier: "${supplierName}"`);
+    log.info(`Filtering table by Supplier: "${supplierName}"`);
 
-    const trigger = await this._getSupplierFilterTrigger();
-    await trigger.click();
-    await this.page.waitForTimeout(600);
-
-    await this._clickSelectOption(supplierName);
-    Logger.info(`Applied supplier filter: "${supplierName}"`);
+    await this.supplierFilter.selectByLabel(supplierName);
+    log.info(`Applied supplier filter: "${supplierName}"`);
 
     await this._waitForTableToFilter();
 
     const found = await this._tableHasDataRows();
 
-    await this._resetSupplierFilter(trigger);
+    await this._resetSupplierFilter();
 
     if (!found) {
-      Logger.warning(`No rows visible after filtering by supplier "${supplierName}"`);
+      log.warning(`No rows visible after filtering by supplier "${supplierName}"`);
     }
     return found;
   }
@@ -291,47 +265,71 @@ export class SkuMasterRatesPage {
    * Filter by supplier then scan the (now small) table for a specific SKU.
    */
   async rateExistsInTable(skuName: string, supplierName: string): Promise<boolean> {
-    Logger.info(`Filtering by supplier "${supplierName}" then looking for SKU "${skuName}"`);
-
-    const trigger = await this._getSupplierFilterTrigger();
-    await trigger.click();
-    await this.page.waitForTimeout(600);
+    log.info(`Filtering by supplier "${supplierName}" then looking for SKU "${skuName}"`);
 
-    await this._clickSelectOption(supplierName);
+    await this.supplierFilter.selectByLabel(supplierName);
     await this._waitForTableToFilter();
 
-    const rows = this.page.locator(
-      'table[data-testid="data-grid"] tbody tr:not(:has(td[colspan]))'
-    );
-    const rowCount = await rows.count();
-    Logger.info(`Filtered table has ${rowCount} rows for supplier "${supplierName}"`);
-
-    let found = false;
-    for (let i = 0; i < rowCount; i++) {
-      const skuCell = rows.nth(i).locator('td:nth-child(2) span[title]');
-      try {
-        const skuText = await skuCell.getAttribute('title', { timeout: 1000 });
-        if (skuText && skuText.trim() === skuName) {
-          Logger.info(`Found SKU "${skuName}" at row ${i}`);
-          found = true;
-          break;
-        }
-      } catch {
-        continue;
-      }
+    const rows = await this.grid.readPage();
+    log.info(`Filtered table has ${rows.length} rows for supplier "${supplierName}"`);
+
+    const match = rows.find((row) => row.values.sku === skuName);
+    const found = match !== undefined;
+    if (match) {
+      log.info(`Found SKU "${skuName}" at row ${match.index}`);
     }
 
-    await this._resetSupplierFilter(trigger);
+    await this._resetSupplierFilter();
 
     if (!found) {
-      Logger.warning(`SKU "${skuName}" not found in filtered table for supplier "${supplierName}"`);
+      log.warning(`SKU "${skuName}" not found in filtered table for supplier "${supplierName}"`);
     }
     return found;
   }
+
+  // ===== VIRTUAL SCROLL SCANNING =====
+
+  /**
+   * Scroll through the whole grid and return every rate it shows
+   */
+  async collectAllRates(): Promise<MasterRateGridRow[]> {
+    log.info('Collecting every rate in the SKU Master Rates grid');
+    const rows = await this.scanner.collect();
+    return rows.map(toMasterRateRow);
+  }
+
+  /**
+   * Scroll until the rate for a SKU / supplier pair is found
+   * @returns The rate row, or null when the grid has no such pair
+   */
+  async findRate(skuName: string, supplierName: string): Promise<MasterRateGridRow | null> {
+    log.info(`Scanning grid for rate of SKU "${skuName}" / supplier "${supplierName}"`);
+    const row = await this.scanner.find(
+      ({ values }) => values.sku === skuName && values.supplier === supplierName
+    );
+
+    if (!row) {
+      log.warning(`No grid row for SKU "${skuName}" and supplier "${supplierName}"`);
+      return null;
+    }
+    return toMasterRateRow(row);
+  }
 }
 
 // ===== UTILITY =====
 
 function escapeRegex(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a scanned row, parsing the rate cell ("1,234.50", "$12.00", "")
+ */
+function toMasterRateRow({ values }: ScannedRow<MasterRateColumn>): MasterRateGridRow {
+  const numeric = values.rate.replace(/[^\d.-]/g, '');
+  return {
+    skuName: values.sku,
+    supplierName: values.supplier,
+    rate: numeric ? Number(numeric) : null,
+  };
+}
@@ -1,6 +1,12 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
 import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
+import { Dialog } from './components/Dialog';
+import { Select } from './components/Select';
+import { Combobox } from './components/Combobox';
+
+const log = Logger.for('pages');
 
 /**
  * SKU Page Object Model
@@ -8,102 +14,79 @@ import testConfig from '../config/test-config';
  * the SKU list table, create dialog with all fields, and row actions.
  */
 export class SkusPage {
-  // ===== NAVIGATION =====
-  private readonly navLink: Locator;
-
   // ===== PAGE HEADER =====
-  private readonly createButton: Locator;
+  readonly createButton: Locator;
 
-  // ===== CREATE DIALOG FIELDS =====
-  private readonly skuCategoryHiddenSelect: Locator;
+  // ===== CREATE DIALOG =====
+  readonly createDialog: Dialog;
+  readonly skuCategory: Select;
   private readonly displayNameInput: Locator;
-  private readonly skuClassificationTrigger: Locator;
-  private readonly unitHiddenSelect: Locator;
-  private readonly canConvertToWeightHiddenSelect: Locator;
+  readonly skuClassification: Combobox;
+  readonly unit: Select;
+  readonly canConvertToWeight: Select;
   private readonly weightFactorInput: Locator;
-  private readonly weightUnitHiddenSelect: Locator;
-  private readonly dialogSubmitButton: Locator;
+  readonly weightUnit: Select;
 
   // ===== TABLE =====
-  private readonly table: Locator;
-  private readonly tableRows: Locator;
-
-  // ===== PAGINATION =====
-  private readonly nextPageButton: Locator;
-  private readonly previousPageButton: Locator;
+  readonly grid: DataGrid<'name'>;
 
   /**
    * Initialize SKU page with locators
    * @param page - Playwright page object
    */
   constructor(public page: Page) {
-    // Sidebar nav link
-    this.navLink = page.locator('a[data-slot="sidebar-menu-sub-button"][href="/skus"]');
-
     // Page-level Create button
     this.createButton = page
       .locator('button[data-slot="button"]')
       .filter({ hasText: 'Create' })
       .first();
 
-    // Create dialog fields
-    this.skuCategoryHiddenSelect = page.locator('select[name="skuCategoryId"]');
+    // Create dialog and its fields — the selects are driven through their hidden native <select>
+    this.skuCategory = new Select(page, { native: page.locator('select[name="skuCategoryId"]') }, 'SKU Category');
     
-    this.displayNameInput = page.locator('input#displayName');
+    this.createDialog = new Dialog(page, { opener: this.createButton, submitLabel: 'Create' });
+    this.displayNameInput = this.createDialog.root.locator('input#displayName');
     
     // SKU Classification - look for the field with placeholder "Type or select classification..."
-    this.skuClassificationTrigger = page.locator('button[data-slot="popover-trigger"]').filter({ hasText: /Type or select classification/ });
+    this.skuClassification = new Combobox(
+      page,
+      page.locator('button[data-slot="popover-trigger"]').filter({ hasText: /Type or select classification/ }),
+      'SKU Classification'
+    );
     
-    this.unitHiddenSelect = page.locator('select[name="unitId"]');
+    this.unit = new Select(page, { native: page.locator('select[name="unitId"]') }, 'Unit');
     
-    this.canConvertToWeightHiddenSelect = page.locator('select[name="canConvertToWeight"]');
+    this.canConvertToWeight = new Select(page, { native: page.locator('select[name="canConvertToWeight"]') }, 'Can Convert To Weight');
     
     this.weightFactorInput = page.locator('input#weightFactor');
     
-    this.weightUnitHiddenSelect = page.locator('select[name="weightUnitId"]');
-
-    // Submit button inside the dialog
-    this.dialogSubmitButton = page.locator('button[type="submit"]').filter({ hasText: 'Create' }).last();
+    this.weightUnit = new Select(page, { native: page.locator('select[name="weightUnitId"]') }, 'Weight Unit');
 
     // Table
-    this.table = page.locator('table[data-testid="data-grid"]');
-    this.tableRows = page.locator('table[data-testid="data-grid"] tbody tr');
-
-    // Pagination
-    this.nextPageButton = page
-      .locator('button')
-      .filter({ has: page.locator('span.sr-only:has-text("Go to next page")') });
-    this.previousPageButton = page
-      .locator('button')
-      .filter({ has: page.locator('span.sr-only:has-text("Go to previous page")') });
+    this.grid = new DataGrid(page, { name: 'SKU' });
   }
 
-  // ===== NAVIGATION =====
+  // ===== CREATE DIALOG HELPERS =====
 
   /**
-   * Click the SKUs link in the sidebar
+   * Return whether the page-level Create button is visible
    */
-  async navigateToSkus(): Promise<void> {
-    Logger.info('Clicking SKUs sidebar link');
-    await this.navLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.navLink.click();
-    // Wait for URL to include /skus (with or without query parameters)
-    await this.page.waitForURL(/\/skus(\?.*)?$/, { timeout: testConfig.timeouts.medium });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-    Logger.success('Navigated to SKUs page');
+  async isCreateButtonVisible(): Promise<boolean> {
+    try {
+      await this.createButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+      return true;
+    } catch {
+      return false;
+    }
   }
 
-  // ===== CREATE DIALOG HELPERS =====
-
   /**
    * Click the Create button to open the create dialog
    */
   async clickCreateButton(): Promise<void> {
-    Logger.info('Clicking Create button');
-    await this.createButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.createButton.click();
-    await this.displayNameInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    Logger.success('Create dialog opened');
+    log.info('Clicking Create button');
+    await this.createDialog.open();
+    log.success('Create dialog opened');
   }
 
   /**
@@ -111,13 +94,8 @@ export class SkusPage {
    * @param categoryName - The category name to select
    */
   async selectSkuCategory(categoryName: string): Promise<void> {
-    Logger.info(`Selecting SKU Category: ${categoryName}`);
-    
-    // Use the hidden select directly
-    await this.skuCategoryHiddenSelect.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.skuCategoryHiddenSelect.selectOption({ label: categoryName });
-    
-    Logger.success(`Selected SKU Category: ${categoryName}`);
+    await this.skuCategory.selectByLabel(categoryName);
+    log.success(`Selected SKU Category: ${categoryName}`);
   }
 
   /**
@@ -125,9 +103,8 @@ export class SkusPage {
    * @param name - SKU display name
    */
   async fillDisplayName(name: string): Promise<void> {
-    Logger.info(`Filling SKU display name: ${name}`);
-    await this.displayNameInput.fill(name);
-    await this.displayNameInput.blur();
+    log.info(`Filling SKU display name: ${name}`);
+    await this.createDialog.fill(this.displayNameInput, name);
   }
 
   /**
@@ -135,24 +112,9 @@ export class SkusPage {
    * @param classificationName - The classification name to select
    */
   async selectSkuClassification(classificationName: string): Promise<void> {
-    Logger.info(`Selecting SKU Classification: ${classificationName}`);
-    
-    // Wait for the trigger to be visible and click it
-    await this.skuClassificationTrigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.skuClassificationTrigger.click();
-    
-    // Wait for the popover to appear
-    await this.page.waitForTimeout(500);
-    
-    // Find and click the matching item in the popover
-    const classificationItem = this.page
-      .locator('[role="option"], [cmdk-item]')
-      .filter({ hasText: classificationName })
-      .first();
-    await classificationItem.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await classificationItem.click();
-    
-    Logger.success(`Selected SKU Classification: ${classificationName}`);
+    // Type the name first: the list can be long
+    await this.skuClassification.selectByLabel(classificationName, { search: true });
+    log.success(`Selected SKU Classification: ${classificationName}`);
   }
 
   /**
@@ -160,13 +122,8 @@ export class SkusPage {
    * @param unitId - The unit ID to select (e.g., 'kg', 't', 'm3')
    */
   async selectUnit(unitId: string): Promise<void> {
-    Logger.info(`Selecting Unit: ${unitId}`);
-    
-    // Use the hidden select directly
-    await this.unitHiddenSelect.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.unitHiddenSelect.selectOption({ value: unitId });
-    
-    Logger.success(`Selected Unit: ${unitId}`);
+    await this.unit.selectByValue(unitId);
+    log.success(`Selected Unit: ${unitId}`);
   }
 
   /**
@@ -174,19 +131,15 @@ export class SkusPage {
    * @param value - 'yes' or 'no'
    */
   async setCanConvertToWeight(value: 'yes' | 'no'): Promise<void> {
-    Logger.info(`Setting "Can Convert To Weight" to: ${value}`);
-    
-    // Use the hidden select directly
-    await this.canConvertToWeightHiddenSelect.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.canConvertToWeightHiddenSelect.selectOption({ value });
+    await this.canConvertToWeight.selectByValue(value);
     
     // Wait for the weight fields to appear if setting to yes
     if (value === 'yes') {
       await this.weightFactorInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-      await this.weightUnitHiddenSelect.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+      await this.weightUnit.waitForField();
     }
     
-    Logger.success(`Set "Can Convert To Weight" to: ${value}`);
+    log.success(`Set "Can Convert To Weight" to: ${value}`);
   }
 
   /**
@@ -194,10 +147,8 @@ export class SkusPage {
    * @param factor - Weight factor number (e.g., 1.87)
    */
   async fillWeightFactor(factor: number): Promise<void> {
-    Logger.info(`Filling weight factor: ${factor}`);
-    await this.weightFactorInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.weightFactorInput.fill(factor.toString());
-    await this.weightFactorInput.blur();
+    log.info(`Filling weight factor: ${factor}`);
+    await this.createDialog.fill(this.weightFactorInput, factor.toString());
   }
 
   /**
@@ -205,25 +156,17 @@ export class SkusPage {
    * @param unitId - The weight unit ID to select (e.g., 'kg', 't')
    */
   async selectWeightUnit(unitId: string): Promise<void> {
-    Logger.info(`Selecting Weight Unit: ${unitId}`);
-    
-    // Use the hidden select directly
-    await this.weightUnitHiddenSelect.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.weightUnitHiddenSelect.selectOption({ value: unitId });
-    
-    Logger.success(`Selected Weight Unit: ${unitId}`);
+    await this.weightUnit.selectByValue(unitId);
+    log.success(`Selected Weight Unit: ${unitId}`);
   }
 
   /**
    * Submit the create SKU dialog form
    */
   async submitCreateDialog(): Promise<void> {
-    Logger.info('Submitting Create SKU dialog');
-    await this.dialogSubmitButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await this.dialogSubmitButton.click();
-    // Wait for dialog to close
-    await this.displayNameInput.waitFor({ state: 'hidden', timeout: testConfig.timeouts.medium });
-    Logger.success('Create SKU dialog submitted');
+    log.info('Submitting Create SKU dialog');
+    await this.createDialog.submitAndWaitForClose();
+    log.success('Create SKU dialog submitted');
   }
 
   // ===== CREATE METHODS =====
@@ -284,79 +227,19 @@ export class SkusPage {
    * Wait for the SKU table to be visible
    */
   async waitForTableToLoad(): Promise<void> {
-    Logger.info('Waiting for SKU table to load');
-    await this.table.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
-  }
-
-  /**
-   * Check if next page button is enabled
-   */
-  async hasNextPage(): Promise<boolean> {
-    const isVisible = await this.nextPageButton.isVisible().catch(() => false);
-    if (!isVisible) return false;
-    const isDisabled = await this.nextPageButton.isDisabled().catch(() => true);
-    return !isDisabled;
-  }
-
-  /**
-   * Click next page button
-   */
-  async clickNextPage(): Promise<void> {
-    Logger.info('Clicking next page button');
-    await this.nextPageButton.click();
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
-    await this.page.waitForTimeout(1000);
+    log.info('Waiting for SKU table to load');
+    await this.grid.waitForLoad();
   }
 
   /**
    * Find a table row by the SKU name
-   * Looks in the second column (SKU) with title attribute
+   * Looks in the "SKU" column, across all pages
    * @param name - The SKU name to search for
    * @returns The row Locator or null if not found
    */
   async getRowBySkuName(name: string, maxPages: number = 10): Promise<Locator | null> {
-    Logger.info(`Looking for SKU row with name: "${name}"`);
-    await this.waitForTableToLoad();
-
-    let pageNum = 1;
-
-    while (pageNum <= maxPages) {
-      Logger.info(`Searching on page ${pageNum}...`);
-
-      const rowCount = await this.tableRows.count();
-      Logger.info(`Table has ${rowCount} rows on page ${pageNum}`);
-
-      for (let i = 0; i < rowCount; i++) {
-        const row = this.tableRows.nth(i);
-        // The SKU name is in the second column (td:nth-child(2)) with a div containing title
-        const nameCell = row.locator('td:nth-child(2) div[title]');
-
-        try {
-          const titleAttr = await nameCell.getAttribute('title');
-          if (titleAttr && titleAttr.trim() === name) {
-            Logger.info(`Found SKU "${name}" at row ${i + 1} on page ${pageNum}`);
-            return row;
-          }
-        } catch {
-          // cell not found in this row — continue
-        }
-      }
-
-      // Check for next page
-      const hasNext = await this.hasNextPage();
-      if (!hasNext) {
-        Logger.info(`No more pages to search. Reached page ${pageNum}`);
-        break;
-      }
-
-      Logger.info(`Moving to next page...`);
-      await this.clickNextPage();
-      pageNum++;
-    }
-
-    Logger.warning(`SKU "${name}" not found in table after searching ${pageNum} pages`);
-    return null;
+    const row = await this.grid.findRow('name', name, maxPages);
+    return row?.locator ?? null;
   }
 
   /**
@@ -1,74 +1,61 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
-import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
+import { Dialog } from './components/Dialog';
+import { MultiSelectPopover } from './components/MultiSelectPopover';
+
+const log = Logger.for('pages');
 
 /**
  * Supplier Groups Page Object Model
  */
 export class SupplierGroupsPage {
-  private readonly navLink: Locator;
   private readonly createButton: Locator;
-  private readonly displayNameInput: Locator;
-  private readonly suppliersDropdownTrigger: Locator;
-  private readonly table: Locator;
-  private readonly tableRows: Locator;
+  readonly createDialog: Dialog;
+  readonly displayNameInput: Locator;
+  readonly suppliers: MultiSelectPopover;
+  readonly grid: DataGrid<'name'>;
 
   constructor(public page: Page) {
-    this.navLink = page.locator('a[data-slot="sidebar-menu-button"][href="/supplier-groups"]');
     this.createButton = page
       .locator('div.flex.items-center.gap-2 > button')
       .filter({ hasText: 'Create' });
-    this.displayNameInput = page.locator('input#displayName');
-    this.suppliersDropdownTrigger = page.locator(
-      'button[data-slot="popover-trigger"][name="supplierIds"]'
+    this.createDialog = new Dialog(page, { opener: this.createButton });
+    this.displayNameInput = this.createDialog.root.locator('input#displayName');
+    this.suppliers = new MultiSelectPopover(
+      page,
+      page.locator('button[data-slot="popover-trigger"][name="supplierIds"]'),
+      'Suppliers'
     );
-    this.table = page.locator('table[data-slot="table"]');
-    this.tableRows = page.locator('table[data-slot="table"] tbody tr');
-  }
-
-  async navigateToSupplierGroups(): Promise<void> {
-    Logger.info('Clicking Supplier Groups sidebar link');
-    await this.navLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.navLink.click();
-    await this.page.waitForURL('**/supplier-groups', { timeout: testConfig.timeouts.medium });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-    Logger.success('Navigated to Supplier Groups page');
+    this.grid = new DataGrid(page, { name: 'Supplier Group Name' });
   }
 
   async waitForTableToLoad(): Promise<void> {
-    await this.table.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
+    await this.grid.waitForLoad();
   }
 
-  async createSupplierGroup(name: string): Promise<void> {
-    // Open dialog
-    await this.createButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.createButton.click();
-    await this.displayNameInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-
-    // Fill name
-    await this.displayNameInput.fill(name);
+  /**
+   * Find a table row by supplier group name, across all pages
+   * @returns The row Locator or null if not found
+   */
+  async getRowByGroupName(name: string, maxPages: number = 10): Promise<Locator | null> {
+    const row = await this.grid.findRow('name', name, maxPages);
+    return row?.locator ?? null;
+  }
 
-    // Open suppliers dropdown
-    await this.suppliersDropdownTrigger.click();
+  async supplierGroupExistsInTable(name: string): Promise<boolean> {
+    return (await this.getRowByGroupName(name)) !== null;
+  }
 
-    // Select All if available
-    const selectAll = this.page.locator('[cmdk-item]').filter({ hasText: '(Select All)' }).first();
-    if (await selectAll.isVisible().catch(() => false)) {
-      await selectAll.click();
-    } else {
-      Logger.info('No suppliers to select — skipping');
-    }
+  async createSupplierGroup(name: string): Promise<void> {
+    await this.createDialog.open();
+    await this.createDialog.fill(this.displayNameInput, name);
 
-    // Click Close button inside the dropdown
-    const closeBtn = this.page.locator('[cmdk-item]').filter({ hasText: 'Close' });
-    await closeBtn.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await closeBtn.click();
+    // Select all suppliers if there are any, then close the dropdown
+    await this.suppliers.selectAll();
+    await this.suppliers.close();
 
-    // Submit
-    await this.displayNameInput.press('Tab');
-    const submitButton = this.page.locator('button[type="submit"][data-slot="button"]');
-    await submitButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await submitButton.click();
-    Logger.success('Create dialog submitted');
+    await this.createDialog.submitAndWaitForClose();
+    log.success('Create dialog submitted');
   }
 }
@@ -1,82 +1,82 @@
 import { Page, Locator } from '@playwright/test';
 import { Logger } from '../utils/logger';
 import testConfig from '../config/test-config';
+import { DataGrid } from './components/DataGrid';
+import { Dialog } from './components/Dialog';
+import { MultiSelectPopover } from './components/MultiSelectPopover';
+
+const log = Logger.for('pages');
 
 /**
  * Suppliers Page Object Model
  */
 export class SuppliersPage {
-  private readonly navLink: Locator;
-  private readonly createButton: Locator;
-  private readonly displayNameInput: Locator;
-  private readonly gpsLatitudeInput: Locator;
-  private readonly gpsLongitudeInput: Locator;
-  private readonly supplierGroupsDropdownTrigger: Locator;
-  private readonly table: Locator;
+  readonly createButton: Locator;
+  readonly createDialog: Dialog;
+  readonly displayNameInput: Locator;
+  readonly gpsLatitudeInput: Locator;
+  readonly gpsLongitudeInput: Locator;
+  readonly supplierGroups: MultiSelectPopover;
+  readonly grid: DataGrid<'name'>;
 
   constructor(public page: Page) {
-    this.navLink = page.locator('a[data-slot="sidebar-menu-button"][href="/suppliers"]');
     this.createButton = page
       .locator('div.flex.items-center.gap-2 > button')
       .filter({ hasText: 'Create' });
-    this.displayNameInput = page.locator('input#displayName');
-    this.gpsLatitudeInput = page.locator('input#gpsLatitude');
-    this.gpsLongitudeInput = page.locator('input#gpsLongitude');
-    this.supplierGroupsDropdownTrigger = page.locator(
-      'button[data-slot="popover-trigger"][name="supplierGroups"]'
+    this.createDialog = new Dialog(page, { opener: this.createButton });
+    this.displayNameInput = this.createDialog.root.locator('input#displayName');
+    this.gpsLatitudeInput = this.createDialog.root.locator('input#gpsLatitude');
+    this.gpsLongitudeInput = this.createDialog.root.locator('input#gpsLongitude');
+    this.supplierGroups = new MultiSelectPopover(
+      page,
+      page.locator('button[data-slot="popover-trigger"][name="supplierGroups"]'),
+      'Supplier Groups'
     );
-    this.table = page.locator('table[data-slot="table"]');
-  }
-
-  async navigateToSuppliers(): Promise<void> {
-    Logger.info('Clicking Suppliers sidebar link');
-    await this.navLink.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.navLink.click();
-    await this.page.waitForURL('**/suppliers', { timeout: testConfig.timeouts.medium });
-    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.default);
-    Logger.success('Navigated to Suppliers page');
+    this.grid = new DataGrid(page, { name: 'Supplier Name' });
   }
 
   async waitForTableToLoad(): Promise<void> {
-    await this.table.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
+    await this.grid.waitForLoad();
   }
 
-  async createSupplier(name: string, lat: string, lng: string): Promise<void> {
-    // Open dialog
-    await this.createButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-    await this.createButton.click();
-    await this.displayNameInput.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
-
-    // Fill fields
-    await this.displayNameInput.fill(name);
-    await this.gpsLatitudeInput.fill(lat);
-    await this.gpsLongitudeInput.fill(lng);
+  /**
+   * Find a table row by supplier name, across all pages
+   * @returns The row Locator or null if not found
+   */
+  async getRowBySupplierName(name: string, maxPages: number = 10): Promise<Locator | null> {
+    const row = await this.grid.findRow('name', name, maxPages);
+    return row?.locator ?? null;
+  }
 
-    // Open supplier groups dropdown
-    await this.supplierGroupsDropdownTrigger.click();
+  async supplierExistsInTable(name: string): Promise<boolean> {
+    return (await this.getRowBySupplierName(name)) !== null;
+  }
 
-    // Select a non-default option if available, otherwise just close
-    const items = this.page
-      .locator('[cmdk-item]')
-      .filter({ hasNotText: '(Select All)' })
-      .filter({ hasNotText: 'Close' });
-    const itemCount = await items.count().catch(() => 0);
-    if (itemCount > 0) {
-      Logger.info(`Selecting first available supplier group option`);
-      await items.first().click();
-    } else {
-      Logger.info('No supplier groups to select — closing dropdown');
+  /**
+   * Return whether the page-level Create button is visible
+   */
+  async isCreateButtonVisible(): Promise<boolean> {
+    try {
+      await this.createButton
+        .first()
+        .waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+      return true;
+    } catch {
+      return false;
     }
+  }
+
+  async createSupplier(name: string, lat: string, lng: string): Promise<void> {
+    await this.createDialog.open();
+    await this.createDialog.fill(this.displayNameInput, name);
+    await this.createDialog.fill(this.gpsLatitudeInput, lat);
+    await this.createDialog.fill(this.gpsLongitudeInput, lng);
 
-    // Close the dropdown
-    const closeBtn = this.page.locator('[cmdk-item]').filter({ hasText: 'Close' });
-    await closeBtn.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await closeBtn.click();
+    // Select the first supplier group if there is one, then close the dropdown
+    await this.supplierGroups.selectFirst();
+    await this.supplierGroups.close();
 
-    // Submit
-    const submitButton = this.page.locator('button[type="submit"]').filter({ hasText: 'Create' });
-    await submitButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
-    await submitButton.click();
-    Logger.success('Create supplier dialog submitted');
+    await this.createDialog.submitAndWaitForClose();
+    log.success('Create supplier dialog submitted');
   }
 }
@@ -0,0 +1,93 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import testConfig from '../../config/test-config';
+import { CommandPopover } from './CommandPopover';
+import { SelectedOption } from './Select';
+
+const log = Logger.for('pages');
+
+/**
+ * Combobox Component Object
+ * Wraps a shadcn combobox: a popover trigger opening a searchable cmdk list where choosing
+ * an option closes the popover and shows its label on the trigger.
+ *
+ * @example
+ * const classification = new Combobox(page, page.locator('button[name="skuClassificationId"]'));
+ * await classification.selectByLabel('Timber - Hardwood', { search: true });
+ */
+export class Combobox extends CommandPopover {
+  /**
+   * @param page - Playwright page object
+   * @param trigger - The popover trigger button
+   * @param name - Field name used in log messages
+   * @param commandLabels - Items that act on the list rather than being options, e.g. "Close"
+   */
+  constructor(
+    page: Page,
+    trigger: Locator,
+    name: string = 'combobox',
+    commandLabels: string[] = []
+  ) {
+    super(page, trigger, name, commandLabels);
+  }
+
+  /**
+   * Choose the option with this label (exact, or matching a pattern)
+   * @param search - Type the label into the search box first, for long lists
+   */
+  async selectByLabel(label: string | RegExp, { search = false } = {}): Promise<void> {
+    log.info(`Selecting ${String(label)} in "${this.name}"`);
+    if (search && typeof label === 'string') {
+      await this.search(label);
+    } else {
+      await this.open();
+    }
+    await this.choose(this.optionByLabel(label));
+  }
+
+  /**
+   * Choose the option with this cmdk value (`data-value`)
+   */
+  async selectByValue(value: string): Promise<void> {
+    log.info(`Selecting value "${value}" in "${this.name}"`);
+    await this.open();
+    await this.choose(this.optionByValue(value));
+  }
+
+  /**
+   * Choose the first option listed
+   * @returns Its label, or null when the list is empty (the popover is then closed)
+   */
+  async selectFirst(): Promise<string | null> {
+    await this.open();
+    if ((await this.optionItems.count()) === 0) {
+      log.info(`No options in "${this.name}"`);
+      await this.close();
+      return null;
+    }
+
+    const label = ((await this.optionItems.first().textContent()) ?? '').trim();
+    log.info(`Selecting first option "${label}" in "${this.name}"`);
+    await this.choose(this.optionItems);
+    return label;
+  }
+
+  /**
+   * The label shown on the trigger
+   */
+  async getSelected(): Promise<SelectedOption> {
+    const label = await this.trigger.textContent();
+    return { label: (label ?? '').trim(), value: null };
+  }
+
+  private async choose(option: Locator): Promise<void> {
+    await option.first().waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+    await option.first().click();
+    await this.waitForClose();
+    // Some comboboxes stay open after a choice; close them the way a user would
+    if (await this.list.isVisible()) {
+      await this.page.keyboard.press('Escape');
+      await this.waitForClose();
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import { Wait } from '../../utils/wait';
+import testConfig from '../../config/test-config';
+
+const log = Logger.for('pages');
+
+/**
+ * Command Popover
+ * Shared base of Combobox and MultiSelectPopover: a `button[data-slot="popover-trigger"]`
+ * opening a popover with a cmdk command list (`[cmdk-input]` search box, `[cmdk-item]`
+ * options). Subclasses decide what choosing an option does.
+ */
+export abstract class CommandPopover {
+  /** Options of the open popover, without the command items listed in `commandLabels` */
+  protected readonly optionItems: Locator;
+  protected readonly searchInput: Locator;
+  protected readonly list: Locator;
+
+  /**
+   * @param page - Playwright page object
+   * @param trigger - The popover trigger button
+   * @param name - Field name used in log messages
+   * @param commandLabels - Items that act on the list rather than being options, e.g. "Close"
+   */
+  constructor(
+    public page: Page,
+    readonly trigger: Locator,
+    protected readonly name: string,
+    commandLabels: string[] = []
+  ) {
+    // cmdk only renders the list of the open popover
+    let items = page.locator('[cmdk-item]');
+    for (const label of commandLabels) {
+      items = items.filter({ hasNotText: label });
+    }
+    this.optionItems = items;
+    this.searchInput = page.locator('[cmdk-input]');
+    this.list = page.locator('[cmdk-list]');
+  }
+
+  /**
+   * Open the popover and wait for its options to finish loading
+   */
+  async open(): Promise<void> {
+    await this.trigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
+    if (!(await this.isOpen())) {
+      await this.trigger.click();
+    }
+    await this.list.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+    await Wait.forStableCount(this.optionItems);
+  }
+
+  /**
+   * Close the popover without choosing an option
+   */
+  async close(): Promise<void> {
+    if (await this.isOpen()) {
+      await this.page.keyboard.press('Escape');
+      await this.waitForClose();
+    }
+  }
+
+  /**
+   * Whether the popover is open
+   */
+  async isOpen(): Promise<boolean> {
+    return (await this.trigger.getAttribute('aria-expanded')) === 'true';
+  }
+
+  /**
+   * Type into the search box to filter the options; opens the popover if needed
+   */
+  async search(text: string): Promise<void> {
+    await this.open();
+    log.info(`Searching "${text}" in "${this.name}"`);
+    await this.searchInput.fill(text);
+    await Wait.forStableCount(this.optionItems);
+  }
+
+  /**
+   * Labels of the options currently listed (after any search), in display order
+   */
+  async options(): Promise<string[]> {
+    const wasOpen = await this.isOpen();
+    await this.open();
+    const labels = (await this.optionItems.allTextContents()).map((label) => label.trim());
+    if (!wasOpen) {
+      await this.close();
+    }
+    return labels;
+  }
+
+  /**
+   * Option with this label (exact, or matching a pattern)
+   */
+  protected optionByLabel(label: string | RegExp): Locator {
+    return this.optionItems.and(this.page.getByRole('option', { name: label, exact: true }));
+  }
+
+  /**
+   * Option with this cmdk value (`data-value`)
+   */
+  protected optionByValue(value: string): Locator {
+    return this.optionItems.and(this.page.locator(`[data-value="${value}"]`));
+  }
+
+  protected async waitForClose(): Promise<void> {
+    await this.list
+      .waitFor({ state: 'hidden', timeout: testConfig.timeouts.short })
+      .catch(() => log.debug(`"${this.name}" popover still open`));
+  }
+}
@@ -0,0 +1,313 @@
+import { Page, Locator } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import { Wait } from '../../utils/wait';
+import testConfig from '../../config/test-config';
+
+const log = Logger.for('pages');
+
+/**
+ * Matches a column header: exact (trimmed) header text, or a pattern
+ */
+export type ColumnMatcher = string | RegExp;
+
+/**
+ * A data row read from the grid, with the values of the declared columns
+ */
+export interface DataGridRow<TColumn extends string = string> {
+  /** Position of the row on its page (0-based, data rows only) */
+  index: number;
+  /** Page the row was found on (1-based) */
+  pageNumber: number;
+  /** Cell value per declared column — an input's value, a `title` attribute, or the cell text */
+  values: Record<TColumn, string>;
+  /** Locator for the row, valid while the grid stays on `pageNumber` */
+  locator: Locator;
+}
+
+/**
+ * Parsed "Showing X of Y rows" footer
+ */
+export interface DataGridPagination {
+  showing: number;
+  total: number;
+}
+
+const GRID_SELECTOR = 'table[data-testid="data-grid"]';
+
+// Section headers, "No results" and virtual-scroll spacer rows all span the full width
+const DATA_ROW_SELECTOR = 'tbody tr:not(:has(td[colspan]))';
+
+const PAGINATION_PATTERN = /Showing\s+(\d+)\s+of\s+(\d+)\s+rows/;
+
+/**
+ * DataGrid Component Object
+ * Wraps the app's shared `table[data-testid="data-grid"]`: resolves columns by header name
+ * instead of `td:nth-child(n)`, pages through results with the "Go to next page" control
+ * and returns typed row objects. Page objects compose it rather than scanning rows themselves.
+ *
+ * @example
+ * const grid = new DataGrid(page, { name: 'Client Name' });
+ * const row = await grid.findRow('name', 'Acme');
+ */
+export class DataGrid<TColumn extends string = string> {
+  /** The `<table>` element */
+  readonly table: Locator;
+  private readonly headerCells: Locator;
+  private readonly dataRows: Locator;
+  private readonly nextPageButton: Locator;
+  private readonly previousPageButton: Locator;
+  private readonly paginationInfo: Locator;
+
+  // Header positions are stable for the lifetime of a page object
+  private columnIndexes: Record<TColumn, number> | null = null;
+
+  /**
+   * @param page - Playwright page object
+   * @param columns - Column key → header text (or pattern) for every column the page reads
+   */
+  constructor(
+    public page: Page,
+    private readonly columns: Record<TColumn, ColumnMatcher>
+  ) {
+    this.table = page.locator(GRID_SELECTOR);
+    this.headerCells = this.table.locator('thead th');
+    this.dataRows = this.table.locator(DATA_ROW_SELECTOR);
+    this.nextPageButton = page
+      .locator('button')
+      .filter({ has: page.locator('span.sr-only:has-text("Go to next page")') });
+    this.previousPageButton = page
+      .locator('button')
+      .filter({ has: page.locator('span.sr-only:has-text("Go to previous page")') });
+    this.paginationInfo = page.locator('text=/Showing \\d+ of \\d+ rows/');
+  }
+
+  /**
+   * Wait for the grid to be visible and its data to settle: no loading skeletons left
+   * and the row count no longer changing
+   */
+  async waitForLoad(): Promise<void> {
+    await this.table.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
+    await Wait.forLoadingToFinish(this.table);
+    await Wait.forStableCount(this.dataRows);
+  }
+
+  /**
+   * Header texts in column order
+   */
+  async getHeaders(): Promise<string[]> {
+    const headers = await this.headerCells.allTextContents();
+    return headers.map((header) => header.trim());
+  }
+
+  /**
+   * 0-based position of a declared column, resolved from the header row
+   */
+  async getColumnIndex(column: TColumn): Promise<number> {
+    if (!this.columnIndexes) {
+      const headers = await this.getHeaders();
+      const indexes = {} as Record<TColumn, number>;
+
+      for (const key of Object.keys(this.columns) as TColumn[]) {
+        const matcher = this.columns[key];
+        const index = headers.findIndex((header) =>
+          typeof matcher === 'string' ? header === matcher : matcher.test(header)
+        );
+        if (index === -1) {
+          throw new Error(
+            `DataGrid column "${key}" (${String(matcher)}) not found. Headers: ${headers.join(' | ')}`
+          );
+        }
+        indexes[key] = index;
+      }
+
+      this.columnIndexes = indexes;
+    }
+
+    return this.columnIndexes[column];
+  }
+
+  /**
+   * Read the data rows of the current page
+   */
+  async readPage(pageNumber: number = 1): Promise<DataGridRow<TColumn>[]> {
+    const keys = Object.keys(this.columns) as TColumn[];
+    const indexes = await Promise.all(keys.map((key) => this.getColumnIndex(key)));
+
+    // One round-trip per page instead of one per cell
+    const cellValues = await this.dataRows.evaluateAll(
+      (rows, columnIndexes) =>
+        rows.map((row) =>
+          columnIndexes.map((columnIndex) => {
+            const cell = row.querySelectorAll('td')[columnIndex];
+            if (!cell) return '';
+            const input = cell.querySelector('input');
+            if (input) return String(input.value).trim();
+            const titled = cell.querySelector('[title]');
+            return (titled?.getAttribute('title') ?? cell.textContent ?? '').trim();
+          })
+        ),
+      indexes
+    );
+
+    return cellValues.map((cells, index) => {
+      const values = {} as Record<TColumn, string>;
+      keys.forEach((key, position) => {
+        values[key] = cells[position];
+      });
+      return { index, pageNumber, values, locator: this.dataRows.nth(index) };
+    });
+  }
+
+  /**
+   * Locator for a data row of the current page (0-based)
+   */
+  getRow(index: number): Locator {
+    return this.dataRows.nth(index);
+  }
+
+  /**
+   * Number of data rows on the current page
+   */
+  async getRowCount(): Promise<number> {
+    return this.dataRows.count();
+  }
+
+  /**
+   * Parse the "Showing X of Y rows" footer, or null when the grid has none
+   */
+  async getPagination(): Promise<DataGridPagination | null> {
+    const text = await this.paginationInfo
+      .first()
+      .textContent({ timeout: testConfig.timeouts.short })
+      .catch(() => null);
+    const match = text?.match(PAGINATION_PATTERN);
+    if (!match) {
+      return null;
+    }
+    return { showing: parseInt(match[1], 10), total: parseInt(match[2], 10) };
+  }
+
+  /**
+   * Check if the "Go to next page" button is enabled
+   */
+  async hasNextPage(): Promise<boolean> {
+    return this.isEnabled(this.nextPageButton);
+  }
+
+  /**
+   * Go to the next page and wait for its rows to replace the current ones
+   */
+  async nextPage(): Promise<void> {
+    await this.turnPage(this.nextPageButton);
+  }
+
+  /**
+   * Page back to the first page
+   */
+  async firstPage(): Promise<void> {
+    while (await this.isEnabled(this.previousPageButton)) {
+      await this.turnPage(this.previousPageButton);
+    }
+  }
+
+  /**
+   * Find the first row matching a predicate, searching from the first page onwards
+   */
+  async findRowWhere(
+    predicate: (row: DataGridRow<TColumn>) => boolean,
+    maxPages: number = 10
+  ): Promise<DataGridRow<TColumn> | null> {
+    await this.waitForLoad();
+    await this.firstPage();
+
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      const rows = await this.readPage(pageNumber);
+      log.debug(`DataGrid page ${pageNumber}: ${rows.length} rows`);
+
+      const match = rows.find(predicate);
+      if (match) {
+        return match;
+      }
+
+      if (!(await this.hasNextPage())) {
+        break;
+      }
+      await this.nextPage();
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the row whose column equals the given value (trimmed)
+   */
+  async findRow(
+    column: TColumn,
+    value: string,
+    maxPages: number = 10
+  ): Promise<DataGridRow<TColumn> | null> {
+    log.info(`Looking for grid row where ${column} = "${value}"`);
+    const row = await this.findRowWhere(
+      (candidate) => candidate.values[column] === value.trim(),
+      maxPages
+    );
+
+    if (row) {
+      log.info(`Found "${value}" at row ${row.index + 1} on page ${row.pageNumber}`);
+    } else {
+      log.warning(`"${value}" not found in the ${column} column`);
+    }
+    return row;
+  }
+
+  /**
+   * Check whether a row with the given column value exists on any page
+   */
+  async rowExists(column: TColumn, value: string, maxPages: number = 10): Promise<boolean> {
+    return (await this.findRow(column, value, maxPages)) !== null;
+  }
+
+  /**
+   * Read the rows of every page, starting from the first
+   */
+  async readAllPages(maxPages: number = 10): Promise<DataGridRow<TColumn>[]> {
+    await this.waitForLoad();
+    await this.firstPage();
+
+    const rows: DataGridRow<TColumn>[] = [];
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      rows.push(...(await this.readPage(pageNumber)));
+      if (!(await this.hasNextPage())) {
+        break;
+      }
+      await this.nextPage();
+    }
+    return rows;
+  }
+
+  private async isEnabled(button: Locator): Promise<boolean> {
+    const isVisible = await button.isVisible().catch(() => false);
+    if (!isVisible) return false;
+    return !(await button.isDisabled().catch(() => true));
+  }
+
+  private async turnPage(button: Locator): Promise<void> {
+    const before = await this.dataRows
+      .first()
+      .textContent({ timeout: testConfig.timeouts.short })
+      .catch(() => null);
+
+    await button.click();
+    await this.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+
+    // Wait for the first row to change rather than sleeping a fixed time
+    if (!before) {
+      return;
+    }
+    await this.dataRows
+      .first()
+      .filter({ hasNotText: before })
+      .waitFor({ state: 'visible', timeout: testConfig.timeouts.short })
+      .catch(() => log.debug('DataGrid rows unchanged after page turn'));
+  }
+}
@@ -0,0 +1,221 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import testConfig from '../../config/test-config';
+
+const log = Logger.for('pages');
+
+/**
+ * Outcome of submitting a dialog form
+ */
+export interface DialogSubmitResult {
+  /** Whether the dialog closed, i.e. the form was accepted */
+  closed: boolean;
+  /** False when the submit button was disabled and could not be clicked */
+  submitted: boolean;
+  /** Validation message per field label, for a dialog that stayed open */
+  errors: Record<string, string>;
+}
+
+export interface DialogOptions {
+  /** Button outside the dialog that opens it, e.g. the page's "Create" button */
+  opener?: Locator;
+  /** Only match the dialog with this title */
+  title?: string | RegExp;
+  /** Text of the submit button, when the form has more than one */
+  submitLabel?: string | RegExp;
+}
+
+// shadcn form fields: a form item with its label and, once validation fails, its message
+const FORM_ITEM_SELECTOR = '[data-slot="form-item"]';
+const FORM_LABEL_SELECTOR = '[data-slot="form-label"], label';
+const FORM_MESSAGE_SELECTOR = '[data-slot="form-message"]';
+
+/**
+ * Dialog Component Object
+ * Wraps a `[role="dialog"]` form — the create dialogs of clients, suppliers, SKUs, etc.:
+ * opens it, fills fields by label, submits it and tells whether it closed or stayed open
+ * with validation errors, returning those errors per field.
+ *
+ * @example
+ * const dialog = new Dialog(page, { opener: createButton });
+ * await dialog.open();
+ * await dialog.fill('Display Name', '');
+ * const result = await dialog.submit();
+ * expect(result.closed).toBe(false);
+ * expect(result.errors['Display Name']).toContain('required');
+ */
+export class Dialog {
+  /** The dialog element */
+  readonly root: Locator;
+  private readonly opener?: Locator;
+  private readonly submitButton: Locator;
+
+  /**
+   * @param page - Playwright page object
+   * @param options - Opener button, title and submit button text
+   */
+  constructor(
+    public page: Page,
+    { opener, title, submitLabel }: DialogOptions = {}
+  ) {
+    // Popovers are role="dialog" too, but never hold a form
+    let root = page.locator('[role="dialog"]').filter({ has: page.locator('form') });
+    if (title) {
+      root = root.filter({
+        has: page.locator('[data-slot="dialog-title"], h2').filter({ hasText: title }),
+      });
+    }
+    this.root = root.last();
+    this.opener = opener;
+    const submitButtons = this.root.locator('button[type="submit"]');
+    this.submitButton = (
+      submitLabel ? submitButtons.filter({ hasText: submitLabel }) : submitButtons
+    ).last();
+  }
+
+  /**
+   * Click the opener and wait for the dialog to show
+   */
+  async open(): Promise<void> {
+    if (!this.opener) {
+      throw new Error('Dialog has no opener button to open it with');
+    }
+    await this.opener.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
+    await this.opener.click();
+    await this.waitForOpen();
+  }
+
+  /**
+   * Wait for the dialog to show, e.g. after an action that opens it
+   */
+  async waitForOpen(): Promise<void> {
+    await this.root.waitFor({ state: 'visible', timeout: testConfig.timeouts.medium });
+  }
+
+  /**
+   * Whether the dialog is currently shown
+   */
+  async isOpen(): Promise<boolean> {
+    return this.root.isVisible();
+  }
+
+  /**
+   * The input labelled with this text (exact match, or a pattern)
+   */
+  field(label: string | RegExp): Locator {
+    return this.root.getByLabel(label, { exact: true });
+  }
+
+  /**
+   * Fill a field, found by its label or given as a locator, and leave it so it validates
+   */
+  async fill(field: string | RegExp | Locator, value: string): Promise<void> {
+    const input = typeof field === 'string' || field instanceof RegExp ? this.field(field) : field;
+    await input.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+    await input.fill(value);
+    await input.blur();
+  }
+
+  /**
+   * Fill several fields by label, in order
+   */
+  async fillFields(values: Record<string, string>): Promise<void> {
+    for (const [label, value] of Object.entries(values)) {
+      await this.fill(label, value);
+    }
+  }
+
+  /**
+   * Click submit, then wait until the dialog either closes or shows validation errors
+   */
+  async submit(): Promise<DialogSubmitResult> {
+    await this.submitButton.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+    if (await this.submitButton.isDisabled()) {
+      log.warning('Dialog submit button is disabled');
+      return { closed: false, submitted: false, errors: await this.getFieldErrors() };
+    }
+
+    await this.submitButton.click();
+
+    // Whichever comes first; a wait that times out means the dialog just stayed open
+    const outcome = await Promise.race([
+      this.root.waitFor({ state: 'hidden', timeout: testConfig.timeouts.medium }).then(
+        () => 'closed' as const,
+        () => 'open' as const
+      ),
+      this.root
+        .locator(FORM_MESSAGE_SELECTOR)
+        .first()
+        .waitFor({ state: 'visible', timeout: testConfig.timeouts.medium })
+        .then(
+          () => 'invalid' as const,
+          () => 'open' as const
+        ),
+    ]);
+
+    if (outcome === 'closed') {
+      log.success('Dialog submitted and closed');
+      return { closed: true, submitted: true, errors: {} };
+    }
+
+    const errors = await this.getFieldErrors();
+    log.warning('Dialog stayed open after submit', errors);
+    return { closed: false, submitted: true, errors };
+  }
+
+  /**
+   * Submit and fail with the validation errors when the dialog does not close
+   */
+  async submitAndWaitForClose(): Promise<void> {
+    const result = await this.submit();
+    if (!result.closed) {
+      const errors = Object.entries(result.errors)
+        .map(([field, message]) => `${field}: ${message}`)
+        .join('; ');
+      throw new Error(
+        `Dialog did not close after submit${errors ? ` — validation errors: ${errors}` : ''}`
+      );
+    }
+  }
+
+  /**
+   * Validation messages currently shown, keyed by field label (or the input's name when the
+   * field has no label)
+   */
+  async getFieldErrors(): Promise<Record<string, string>> {
+    const errors: Record<string, string> = {};
+    const items = this.root.locator(FORM_ITEM_SELECTOR).filter({
+      has: this.page.locator(FORM_MESSAGE_SELECTOR),
+    });
+
+    for (const item of await items.all()) {
+      const message = (
+        (await item.locator(FORM_MESSAGE_SELECTOR).first().textContent()) ?? ''
+      ).trim();
+      if (!message) continue;
+
+      const label = item.locator(FORM_LABEL_SELECTOR).first();
+      const named = item.locator('[name]').first();
+      let key: string | null = null;
+      if ((await label.count()) > 0) {
+        key = ((await label.textContent()) ?? '').trim();
+      } else if ((await named.count()) > 0) {
+        key = await named.getAttribute('name');
+      }
+      errors[key || `field ${Object.keys(errors).length + 1}`] = message;
+    }
+
+    return errors;
+  }
+
+  /**
+   * Close the dialog without submitting
+   */
+  async close(): Promise<void> {
+    if (!(await this.isOpen())) {
+      return;
+    }
+    await this.page.keyboard.press('Escape');
+    await this.root.waitFor({ state: 'hidden', timeout: testConfig.timeouts.short });
+  }
+}
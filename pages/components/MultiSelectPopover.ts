@@ -0,0 +1,129 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import testConfig from '../../config/test-config';
+import { CommandPopover } from './CommandPopover';
+
+const log = Logger.for('pages');
+
+const SELECT_ALL_LABEL = '(Select All)';
+const CLOSE_LABEL = 'Close';
+
+/**
+ * Multi-Select Popover Component Object
+ * Wraps the app's multi-select: a cmdk popover whose options toggle on click, with
+ * "(Select All)" and "Close" command items, and the chosen options shown as badges on the
+ * trigger. The popover stays open while options are chosen, until close().
+ *
+ * @example
+ * const suppliers = new MultiSelectPopover(page, page.locator('button[name="supplierIds"]'));
+ * await suppliers.select(['Acme', 'Globex']);
+ * await suppliers.close();
+ */
+export class MultiSelectPopover extends CommandPopover {
+  private readonly selectAllItem: Locator;
+  private readonly closeItem: Locator;
+
+  /**
+   * @param page - Playwright page object
+   * @param trigger - The popover trigger button
+   * @param name - Field name used in log messages
+   */
+  constructor(page: Page, trigger: Locator, name: string = 'multi-select') {
+    super(page, trigger, name, [SELECT_ALL_LABEL, CLOSE_LABEL]);
+    this.selectAllItem = page.locator('[cmdk-item]').filter({ hasText: SELECT_ALL_LABEL });
+    this.closeItem = page.locator('[cmdk-item]').filter({ hasText: CLOSE_LABEL });
+  }
+
+  /**
+   * Close the popover with its Close item
+   */
+  async close(): Promise<void> {
+    if (!(await this.isOpen())) {
+      return;
+    }
+    await this.closeItem.click();
+    await this.closeItem.waitFor({ state: 'hidden', timeout: testConfig.timeouts.short });
+  }
+
+  /**
+   * Choose the options with these labels (exact, or matching a pattern). Options already
+   * shown as chosen on the trigger are left alone, since clicking them would deselect them.
+   */
+  async select(labels: (string | RegExp)[]): Promise<void> {
+    await this.open();
+    const selected = await this.getSelected();
+
+    for (const label of labels) {
+      const option = this.optionByLabel(label).first();
+      await option.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+      const text = ((await option.textContent()) ?? '').trim();
+      if (selected.includes(text)) {
+        continue;
+      }
+      log.info(`Selecting "${text}" in "${this.name}"`);
+      await option.click();
+    }
+  }
+
+  /**
+   * Choose one option by label
+   * @param search - Type the label into the search box first, for long lists
+   */
+  async selectByLabel(label: string | RegExp, { search = false } = {}): Promise<void> {
+    if (search && typeof label === 'string') {
+      await this.search(label);
+    }
+    await this.select([label]);
+  }
+
+  /**
+   * Choose one option by its cmdk value (`data-value`)
+   */
+  async selectByValue(value: string): Promise<void> {
+    log.info(`Selecting value "${value}" in "${this.name}"`);
+    await this.open();
+    await this.optionByValue(value).first().click();
+  }
+
+  /**
+   * Choose the first option listed
+   * @returns Its label, or null when there are no options
+   */
+  async selectFirst(): Promise<string | null> {
+    await this.open();
+    if ((await this.optionItems.count()) === 0) {
+      log.info(`No options in "${this.name}"`);
+      return null;
+    }
+
+    const label = ((await this.optionItems.first().textContent()) ?? '').trim();
+    await this.select([label]);
+    return label;
+  }
+
+  /**
+   * Choose every option with "(Select All)"
+   * @returns Whether there was anything to choose
+   */
+  async selectAll(): Promise<boolean> {
+    await this.open();
+    if (!(await this.selectAllItem.isVisible())) {
+      log.info(`No options to select in "${this.name}"`);
+      return false;
+    }
+    log.info(`Selecting all options in "${this.name}"`);
+    await this.selectAllItem.click();
+    return true;
+  }
+
+  /**
+   * Labels of the chosen options, read from the badges on the trigger. When the trigger
+   * sums up a long selection as "+ N more", only the labels it still shows are returned.
+   */
+  async getSelected(): Promise<string[]> {
+    const badges = await this.trigger.locator('[data-slot="badge"]').allTextContents();
+    return badges
+      .map((badge) => badge.trim())
+      .filter((badge) => badge && !/^\+\s*\d+\s+more$/.test(badge));
+  }
+}
@@ -0,0 +1,202 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import { TestDataGenerator } from '../../utils/test-data-generator';
+import { Wait } from '../../utils/wait';
+import testConfig from '../../config/test-config';
+
+const log = Logger.for('pages');
+
+/**
+ * The option currently chosen in a select-like component
+ */
+export interface SelectedOption {
+  label: string;
+  /** Option value, or null when the component does not expose it */
+  value: string | null;
+}
+
+/**
+ * How a Select is located. At least one of the two is required.
+ */
+export interface SelectLocators {
+  /** The `button[data-slot="select-trigger"]` that opens the option list */
+  trigger?: Locator;
+  /**
+   * The hidden native `<select>` Radix renders next to the trigger for form submission,
+   * e.g. `select[name="unitId"]`. Needed to select or read by value.
+   */
+  native?: Locator;
+}
+
+// Radix portals the open list to the end of <body>; only one list is open at a time
+const OPTION_SELECTOR = '[data-slot="select-content"] [data-slot="select-item"], [role="option"]';
+
+/**
+ * Select Component Object
+ * Wraps a shadcn/Radix `Select`. When the hidden native `<select>` is known it is driven
+ * directly (fast, and the only way to reach option values); otherwise the trigger is opened
+ * and the option clicked like a user would.
+ *
+ * @example
+ * const unit = new Select(page, { native: page.locator('select[name="unitId"]') });
+ * await unit.selectByValue('kg');
+ *
+ * const group = new Select(page, { trigger: page.locator('button#supplierGroupId') });
+ * await group.selectByLabel('Fresh Produce');
+ */
+export class Select {
+  private readonly trigger?: Locator;
+  private readonly native?: Locator;
+  private readonly optionItems: Locator;
+
+  /**
+   * @param page - Playwright page object
+   * @param locators - Trigger button and/or hidden native select
+   * @param name - Field name used in log messages
+   */
+  constructor(
+    public page: Page,
+    { trigger, native }: SelectLocators,
+    private readonly name: string = 'select'
+  ) {
+    if (!trigger && !native) {
+      throw new Error(`Select "${name}" needs a trigger or a native select locator`);
+    }
+    this.trigger = trigger;
+    this.native = native;
+    this.optionItems = page.locator(OPTION_SELECTOR);
+  }
+
+  /**
+   * Wait until the field is rendered, e.g. once a field it depends on has changed
+   */
+  async waitForField(): Promise<void> {
+    if (this.trigger) {
+      await this.trigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+    } else {
+      await this.native?.waitFor({ state: 'attached', timeout: testConfig.timeouts.short });
+    }
+  }
+
+  /**
+   * Open the option list and wait for it to finish loading
+   */
+  async open(): Promise<void> {
+    const trigger = this.requireTrigger('open');
+    await trigger.waitFor({ state: 'visible', timeout: testConfig.timeouts.short });
+    if ((await trigger.getAttribute('data-state')) !== 'open') {
+      await trigger.click();
+    }
+    await this.optionItems
+      .first()
+      .waitFor({ state: 'visible', timeout: testConfig.timeouts.short })
+      .catch(() => log.debug(`Select "${this.name}" opened without options`));
+    await Wait.forStableCount(this.optionItems);
+  }
+
+  /**
+   * Close the option list without changing the selection
+   */
+  async close(): Promise<void> {
+    if (this.trigger && (await this.trigger.getAttribute('data-state')) === 'open') {
+      await this.page.keyboard.press('Escape');
+      await this.optionItems
+        .first()
+        .waitFor({ state: 'hidden', timeout: testConfig.timeouts.short });
+    }
+  }
+
+  /**
+   * Labels of all options, in display order
+   */
+  async options(): Promise<string[]> {
+    if (this.native) {
+      const labels = await this.native.locator('option').allTextContents();
+      return labels.map((label) => label.trim()).filter(Boolean);
+    }
+
+    await this.open();
+    const labels = await this.optionItems.allTextContents();
+    await this.close();
+    return labels.map((label) => label.trim());
+  }
+
+  /**
+   * Select the option with this label (exact after trimming, or matching a pattern)
+   */
+  async selectByLabel(label: string | RegExp): Promise<void> {
+    log.info(`Selecting ${String(label)} in "${this.name}"`);
+
+    if (this.native && typeof label === 'string') {
+      await this.waitForField();
+      await this.native.selectOption({ label });
+      return;
+    }
+
+    await this.open();
+    await this.optionItems
+      .and(this.page.getByRole('option', { name: label, exact: true }))
+      .first()
+      .click();
+    await this.waitForClose();
+  }
+
+  /**
+   * Select the option with this value. Needs the native select.
+   */
+  async selectByValue(value: string): Promise<void> {
+    if (!this.native) {
+      throw new Error(`Select "${this.name}" has no native select to select by value`);
+    }
+    log.info(`Selecting value "${value}" in "${this.name}"`);
+    await this.waitForField();
+    await this.native.selectOption({ value });
+  }
+
+  /**
+   * Select a random option, skipping placeholder options whose label matches `exclude`
+   * @returns The label of the chosen option
+   */
+  async selectRandom(exclude?: RegExp): Promise<string> {
+    const labels = (await this.options()).filter((label) => !exclude || !exclude.test(label));
+    if (labels.length === 0) {
+      throw new Error(`Select "${this.name}" has no options to choose from`);
+    }
+
+    // Drawn from the seeded faker, so a rerun with the same TEST_SEED picks the same option
+    const label = TestDataGenerator.faker.helpers.arrayElement(labels);
+    await this.selectByLabel(label);
+    return label;
+  }
+
+  /**
+   * The option currently shown as selected
+   */
+  async getSelected(): Promise<SelectedOption> {
+    if (this.native) {
+      const value = await this.native.inputValue();
+      const label = await this.native.locator('option:checked').textContent();
+      return { label: (label ?? '').trim(), value };
+    }
+
+    const trigger = this.requireTrigger('read the selection of');
+    const shown = trigger.locator('[data-slot="select-value"]');
+    const label =
+      (await shown.count()) > 0 ? await shown.textContent() : await trigger.textContent();
+    return { label: (label ?? '').trim(), value: null };
+  }
+
+  private async waitForClose(): Promise<void> {
+    await this.optionItems
+      .first()
+      .waitFor({ state: 'hidden', timeout: testConfig.timeouts.short })
+      .catch(() => log.debug(`Select "${this.name}" list still open after selecting`));
+  }
+
+  private requireTrigger(action: string): Locator {
+    if (!this.trigger) {
+      throw new Error(`Cannot ${action} select "${this.name}" without a trigger locator`);
+    }
+    return this.trigger;
+  }
+}
@@ -0,0 +1,224 @@
+import { BrowserContext, Page } from '@playwright/test';
+import { Logger } from '../../utils/logger';
+import { TOAST_SELECTOR, ToastType, Wait } from '../../utils/wait';
+import testConfig from '../../config/test-config';
+
+const log = Logger.for('pages');
+
+/**
+ * A sonner toast seen during the test
+ */
+export interface ToastRecord {
+  type: ToastType;
+  title: string;
+  description: string;
+  /** When the toast appeared (or changed, e.g. loading → success), ISO 8601 */
+  timestamp: string;
+  /** Page URL at that moment */
+  url: string;
+}
+
+/**
+ * Selects toasts by type and/or text. `text` is matched against the title and description:
+ * a string must be contained in them, a pattern must match them.
+ */
+export interface ToastMatcher {
+  type?: ToastType;
+  text?: string | RegExp;
+}
+
+const RECORD_BINDING = '__toastWatcherRecord';
+
+// Runs in every page of a watched context. Re-reads the toasts on each DOM change and
+// reports a toast whenever its type, title or description differs from what it last sent.
+const OBSERVER_SCRIPT = `(() => {
+  if (window.__toastWatcherInstalled) return;
+  window.__toastWatcherInstalled = true;
+
+  const reported = new WeakMap();
+  const text = (element) => (element ? element.textContent || '' : '').trim();
+
+  const scan = () => {
+    for (const toast of document.querySelectorAll('${TOAST_SELECTOR}')) {
+      const record = {
+        type: toast.getAttribute('data-type') || 'default',
+        title: text(toast.querySelector('[data-title]')),
+        description: text(toast.querySelector('[data-description]')),
+      };
+      if (!record.title && !record.description) continue;
+
+      const signature = record.type + '|' + record.title + '|' + record.description;
+      if (reported.get(toast) === signature) continue;
+      reported.set(toast, signature);
+
+      window.${RECORD_BINDING}({ ...record, timestamp: new Date().toISOString() });
+    }
+  };
+
+  const start = () => {
+    new MutationObserver(scan).observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['data-type'],
+    });
+    scan();
+  };
+
+  if (document.documentElement) start();
+  else document.addEventListener('DOMContentLoaded', start);
+})();`;
+
+/**
+ * Toast Watcher Component
+ * Records every sonner toast shown in the watched browser contexts for the whole test, so
+ * toasts can be asserted after they have disappeared, and error toasts nobody expected can
+ * fail the test. The `toastWatcher` fixture watches the test's page (and `asRole` pages).
+ *
+ * @example
+ * await clientsPage.clickCreate();
+ * await toastWatcher.expectToast({ type: 'success', text: 'Client created' });
+ *
+ * // An error toast the test provokes on purpose
+ * toastWatcher.allow({ type: 'error', text: /already exists/ });
+ */
+export class ToastWatcher {
+  private static readonly watchers = new WeakMap<BrowserContext, ToastWatcher>();
+
+  private readonly toasts: ToastRecord[] = [];
+  private readonly expected = new Set<ToastRecord>();
+  private readonly allowed: ToastMatcher[] = [];
+
+  /**
+   * The watcher recording the toasts of a page's context, if any
+   */
+  static for(page: Page): ToastWatcher | undefined {
+    return this.watchers.get(page.context());
+  }
+
+  /**
+   * Every toast recorded so far, oldest first
+   */
+  get records(): readonly ToastRecord[] {
+    return this.toasts;
+  }
+
+  /**
+   * Start recording the toasts of every page in a browser context, including pages opened
+   * and navigations made later
+   */
+  async watch(context: BrowserContext): Promise<void> {
+    const current = ToastWatcher.watchers.get(context);
+    if (current === this) {
+      return;
+    }
+    if (current) {
+      throw new Error('This browser context is already watched by another ToastWatcher');
+    }
+    ToastWatcher.watchers.set(context, this);
+
+    await context.exposeBinding(RECORD_BINDING, (source, toast: Omit<ToastRecord, 'url'>) =>
+      this.record({ ...toast, url: source.page.url() })
+    );
+    await context.addInitScript({ content: OBSERVER_SCRIPT });
+    // Pages that are already open do not run init scripts until they navigate
+    await Promise.all(
+      context
+        .pages()
+        .map((page) =>
+          page
+            .evaluate(OBSERVER_SCRIPT)
+            .catch((error) => log.debug('Could not install the toast observer', error))
+        )
+    );
+  }
+
+  /**
+   * Recorded toasts matching the matcher, oldest first
+   */
+  find(matcher: ToastMatcher = {}): ToastRecord[] {
+    return this.toasts.filter((toast) => ToastWatcher.matches(toast, matcher));
+  }
+
+  /**
+   * Assert that a matching toast was shown during the test, waiting for it if it has not
+   * appeared yet. Each call claims one toast, so two calls need two matching toasts.
+   * An expected error toast does not fail the test.
+   * @returns The oldest matching toast not claimed by an earlier expectToast()
+   */
+  async expectToast(
+    matcher: ToastMatcher,
+    { timeout = testConfig.timeouts.medium }: { timeout?: number } = {}
+  ): Promise<ToastRecord> {
+    const unclaimed = () => this.find(matcher).find((toast) => !this.expected.has(toast));
+
+    try {
+      await Wait.until(async () => unclaimed() !== undefined, 'a toast', { timeout });
+    } catch {
+      throw new Error(
+        `Expected a toast matching ${ToastWatcher.describe(matcher)}, ` +
+          `but saw ${this.summary() || 'none'}`
+      );
+    }
+
+    const toast = unclaimed() as ToastRecord;
+    this.expected.add(toast);
+    log.info(`Toast matched: ${ToastWatcher.format(toast)}`);
+    return toast;
+  }
+
+  /**
+   * Don't fail the test on error toasts matching the matcher, whether or not they show up
+   */
+  allow(matcher: ToastMatcher): void {
+    this.allowed.push({ type: 'error', ...matcher });
+  }
+
+  /**
+   * Error toasts that were neither expected with expectToast() nor allowed with allow()
+   */
+  unexpectedErrors(): ToastRecord[] {
+    return this.find({ type: 'error' }).filter(
+      (toast) =>
+        !this.expected.has(toast) &&
+        !this.allowed.some((matcher) => ToastWatcher.matches(toast, matcher))
+    );
+  }
+
+  /**
+   * One line per recorded toast, for error messages and logs
+   */
+  summary(): string {
+    return this.toasts.map((toast) => ToastWatcher.format(toast)).join('; ');
+  }
+
+  private record(toast: ToastRecord): void {
+    this.toasts.push(toast);
+    if (toast.type === 'error') {
+      log.warning(`Error toast: ${ToastWatcher.format(toast)}`);
+    } else {
+      log.debug(`Toast: ${ToastWatcher.format(toast)}`);
+    }
+  }
+
+  private static matches(toast: ToastRecord, { type, text }: ToastMatcher): boolean {
+    if (type && toast.type !== type) {
+      return false;
+    }
+    const content = [toast.title, toast.description].filter(Boolean).join(' ');
+    if (typeof text === 'string') {
+      return content.includes(text);
+    }
+    return text ? text.test(content) : true;
+  }
+
+  private static describe({ type, text }: ToastMatcher): string {
+    return `{ type: ${type ?? 'any'}, text: ${text === undefined ? 'any' : String(text)} }`;
+  }
+
+  private static format(toast: ToastRecord): string {
+    const description = toast.description ? ` — ${toast.description}` : '';
+    return `[${toast.type}] "${toast.title}"${description}`;
+  }
+}
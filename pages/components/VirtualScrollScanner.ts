@@ -0,0 +1,161 @@
+import { Logger } from '../../utils/logger';
+import testConfig from '../../config/test-config';
+import { DataGrid } from './DataGrid';
+
+const log = Logger.for('pages');
+
+/**
+ * A row collected while scrolling, identified by its key
+ */
+export interface ScannedRow<TColumn extends string = string> {
+  key: string;
+  values: Record<TColumn, string>;
+}
+
+export interface VirtualScrollScanOptions {
+  /** Fraction of the viewport height scrolled per step — below 1 so consecutive windows overlap */
+  stepRatio?: number;
+  /** Safety limit on scroll steps */
+  maxSteps?: number;
+}
+
+interface ScrollState {
+  scrollTop: number;
+  atEnd: boolean;
+}
+
+/**
+ * Virtual Scroll Scanner
+ * Reads a virtualised DataGrid — one that keeps only the rows near the viewport in the DOM —
+ * by scrolling its scroll container in overlapping steps and de-duplicating the rows it sees
+ * by key. Can collect the full dataset or stop at the first matching row.
+ *
+ * @example
+ * const scanner = new VirtualScrollScanner(grid, (values) => `${values.sku}|${values.supplier}`);
+ * const rows = await scanner.collect();
+ */
+export class VirtualScrollScanner<TColumn extends string = string> {
+  private readonly stepRatio: number;
+  private readonly maxSteps: number;
+
+  /**
+   * @param grid - Grid to read; its declared columns must include everything the key uses
+   * @param keyOf - Builds the unique key of a row from its values
+   */
+  constructor(
+    private readonly grid: DataGrid<TColumn>,
+    private readonly keyOf: (values: Record<TColumn, string>) => string,
+    options: VirtualScrollScanOptions = {}
+  ) {
+    this.stepRatio = options.stepRatio ?? 0.8;
+    this.maxSteps = options.maxSteps ?? 500;
+  }
+
+  /**
+   * Scroll through the whole grid and return every distinct row in display order
+   */
+  async collect(): Promise<ScannedRow<TColumn>[]> {
+    const rows = new Map<string, ScannedRow<TColumn>>();
+    await this.scan((row) => {
+      rows.set(row.key, row);
+      return false;
+    });
+    log.info(`Virtual scroll scan collected ${rows.size} rows`);
+    return [...rows.values()];
+  }
+
+  /**
+   * Scroll until a row matches the predicate. The grid is left scrolled to that row.
+   */
+  async find(
+    predicate: (row: ScannedRow<TColumn>) => boolean
+  ): Promise<ScannedRow<TColumn> | null> {
+    let match: ScannedRow<TColumn> | null = null;
+    await this.scan((row) => {
+      if (predicate(row)) {
+        match = row;
+        return true;
+      }
+      return false;
+    });
+    return match;
+  }
+
+  /**
+   * Visit each distinct row once, from the top; stops when the visitor returns true
+   */
+  private async scan(visit: (row: ScannedRow<TColumn>) => boolean): Promise<void> {
+    await this.grid.waitForLoad();
+    await this.scroll('top');
+
+    const seen = new Set<string>();
+
+    for (let step = 0; step < this.maxSteps; step++) {
+      for (const row of await this.grid.readPage()) {
+        const key = this.keyOf(row.values);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        if (visit({ key, values: row.values })) {
+          return;
+        }
+      }
+
+      const before = await this.scroll('none');
+      if (before.atEnd) {
+        return;
+      }
+
+      const after = await this.scroll('step');
+      // Virtualised grids may fetch the next window lazily
+      await this.grid.page.waitForLoadState(testConfig.waitStrategies.loadStates.network);
+      if (after.scrollTop === before.scrollTop) {
+        log.debug('Virtual scroll scan: container did not move, stopping');
+        return;
+      }
+    }
+
+    log.warning(`Virtual scroll scan stopped after ${this.maxSteps} steps`);
+  }
+
+  /**
+   * Scroll the grid's nearest scrollable ancestor and wait two frames for the virtualiser
+   * to render the new window. 'none' only reports the current position.
+   */
+  private async scroll(action: 'top' | 'step' | 'none'): Promise<ScrollState> {
+    return this.grid.table.evaluate(
+      async (table, { action, stepRatio }) => {
+        const view = table.ownerDocument.defaultView;
+        let container = table.parentElement;
+        while (
+          container &&
+          !(
+            container.scrollHeight > container.clientHeight &&
+            /(auto|scroll)/.test(view.getComputedStyle(container).overflowY)
+          )
+        ) {
+          container = container.parentElement;
+        }
+        const scroller = container ?? table.ownerDocument.scrollingElement;
+
+        if (action === 'top') {
+          scroller.scrollTop = 0;
+        } else if (action === 'step') {
+          scroller.scrollTop += Math.max(1, Math.floor(scroller.clientHeight * stepRatio));
+        }
+
+        if (action !== 'none') {
+          await new Promise((resolve) =>
+            view.requestAnimationFrame(() => view.requestAnimationFrame(resolve))
+          );
+        }
+
+        return {
+          scrollTop: scroller.scrollTop,
+          atEnd: scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1,
+        };
+      },
+      { action, stepRatio: this.stepRatio }
+    );
+  }
+}
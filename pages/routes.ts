@@ -0,0 +1,60 @@
+import { Page } from '@playwright/test';
+import { DashboardPage } from './DashboardPage';
+import { OrganizationPage } from './OrganizationPage';
+import { ClientsPage } from './ClientsPage';
+import { SuppliersPage } from './SuppliersPage';
+import { SupplierGroupsPage } from './SupplierGroupsPage';
+import { SkusPage } from './SkusPage';
+import { SkuCategoriesPage } from './SkuCategoriesPage';
+import { SkuClassificationsPage } from './SkuClassificationsPage';
+import { SkuMasterRatesPage } from './SkuMasterRatesPage';
+
+/**
+ * A page object class, constructed from the Playwright page like every page object
+ */
+export type PageObjectClass<T = unknown> = new (page: Page) => T;
+
+/**
+ * A page reachable from the sidebar
+ */
+export interface Route {
+  /** Name used in log messages and test titles */
+  name: string;
+  /** Label of the collapsible sidebar group holding the link; omit for top-level links */
+  group?: string;
+  /** Link target, also the path the page lives at */
+  href: string;
+  /** Page object returned by `Navigator.to()` */
+  page: PageObjectClass;
+}
+
+/**
+ * Every page the sidebar links to that has a page object. Add a row here with each new
+ * page object — `navigate.to()` and the navigation spec pick it up from this list.
+ */
+export const ROUTES: readonly Route[] = [
+  { name: 'Dashboard', href: '/dashboard', page: DashboardPage },
+  { name: 'Organization', group: 'Organization', href: '/organization', page: OrganizationPage },
+  { name: 'Clients', group: 'Projects', href: '/clients', page: ClientsPage },
+  { name: 'Suppliers', group: 'Suppliers', href: '/suppliers', page: SuppliersPage },
+  {
+    name: 'Supplier Groups',
+    group: 'Suppliers',
+    href: '/supplier-groups',
+    page: SupplierGroupsPage,
+  },
+  { name: 'SKUs', group: 'SKUs', href: '/skus', page: SkusPage },
+  { name: 'SKU Categories', group: 'SKUs', href: '/sku-categories', page: SkuCategoriesPage },
+  {
+    name: 'SKU Classifications',
+    group: 'SKUs',
+    href: '/sku-classifications',
+    page: SkuClassificationsPage,
+  },
+  {
+    name: 'SKU Master Rates',
+    group: 'SKUs',
+    href: '/sku-master-rates',
+    page: SkuMasterRatesPage,
+  },
+];
@@ -2,17 +2,24 @@ import { defineConfig, devices } from '@playwright/test';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import { CREATES_DATA_TAG, getEnvironment, TEST_TIMEOUT_MS } from './config/environments';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 dotenv.config({ path: resolve(__dirname, '.env') });
 
+// TEST_ENV profile - base URL, credentials, database and what may be created or deleted
+const environment = getEnvironment();
+
 export default defineConfig({
   testDir: './tests',
 
+  // Environments that must not gain data (production) skip every spec tagged @creates-data
+  grepInvert: environment.allowDestructive.createData ? undefined : new RegExp(CREATES_DATA_TAG),
+
   // Maximum time one test can run
-  timeout: 60 * 1000,
+  timeout: TEST_TIMEOUT_MS,
 
   fullyParallel: true,
   forbidOnly: false,
@@ -31,7 +38,7 @@ export default defineConfig({
   ],
 
   use: {
-    baseURL: process.env.BASE_URL || 'http://localhost:3000',
+    baseURL: environment.baseUrl,
     viewport: { width: 1920, height: 1080 },
     ignoreHTTPSErrors: true,
     screenshot: 'only-on-failure',
@@ -45,8 +52,14 @@ export default defineConfig({
   globalTeardown: './global-teardown.ts',
 
   projects: [
+    // Signs the default test user in once and caches its storage state in playwright/.auth/
+    {
+      name: 'setup',
+      testMatch: /.*\.setup\.ts/,
+    },
     {
       name: 'chromium',
+      dependencies: ['setup'],
       use: {
         ...devices['Desktop Chrome'],
         launchOptions: {
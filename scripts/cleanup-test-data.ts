@@ -1,52 +1,200 @@
 /**
  * Manual Test Data Cleanup Script
- * Run this script to manually clean up test data from the database
+ * Finds the data tests left behind — test users, `test-org-*` organizations and the clients,
+ * suppliers, SKUs, rates, etc. named `Test ...` in them — lists it with counts and deletes it
+ * with everything depending on it, after confirmation.
  *
- * Usage: npm run db:cleanup
+ * Usage: npm run db:cleanup -- [options]
+ *   --dry-run             List what would be deleted, delete nothing
+ *   --older-than <age>    Only data created more than <age> ago, e.g. 30m, 2h, 7d
+ *   --entities <types>    Comma-separated entity types, e.g. sku,client (default: all)
+ *   --org <slug>          Only data of this test organization
+ *   -y, --yes             Delete without asking for confirmation
+ *   -h, --help            Show this help
+ *
+ * Exits with 1 when any row could not be deleted, and with 2 on invalid options.
  */
 
+// Before anything reads the configuration: DATABASE_URL etc. may come from .env
+import 'dotenv/config';
+import { createInterface } from 'readline/promises';
+import { parseArgs } from 'util';
 import { DatabaseHelper } from '../utils/database-helper';
 import { Logger } from '../utils/logger';
-import testConfig from '../config/test-config';
+import { CLEANUP_ORDER, CleanupEntityType } from '../utils/test-cleanup';
+import { parseDuration, SweepFilter, TestDataRow, TestDataSweep } from '../utils/test-data-sweep';
+import { assertDestructiveAllowed } from '../config/environments';
+
+const USAGE = `Usage: npm run db:cleanup -- [--dry-run] [--older-than 2h] [--entities sku,client] [--org <slug>] [--yes]
+
+Entity types: ${CLEANUP_ORDER.join(', ')}`;
 
-async function cleanupTestData() {
-  Logger.info('🧹 Starting manual test data cleanup...');
+interface CleanupOptions {
+  filter: SweepFilter;
+  dryRun: boolean;
+  yes: boolean;
+}
+
+class UsageError extends Error {}
 
+/**
+ * Parse the command line into the sweep filter and flags
+ */
+function parseOptions(args: string[]): CleanupOptions | null {
+  let values;
   try {
-    // Connect to database
-    await DatabaseHelper.connect();
+    ({ values } = parseArgs({
+      args,
+      options: {
+        'dry-run': { type: 'boolean', default: false },
+        'older-than': { type: 'string' },
+        entities: { type: 'string' },
+        org: { type: 'string' },
+        yes: { type: 'boolean', short: 'y', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
 
-    // Clean up test users
-    Logger.info('Cleaning up test users...');
-    const usersDeleted = await DatabaseHelper.cleanupTestUsers(
-      `%@${testConfig.testData.testEmailDomain}`
-    );
-    Logger.success(`Deleted ${usersDeleted} test users`);
+  if (values.help) {
+    return null;
+  }
 
-    // Clean up test organizations
-    Logger.info('Cleaning up test organizations...');
-    const orgsDeleted = await DatabaseHelper.cleanupTestOrganizations(
-      `${testConfig.testData.testOrgPrefix}%`
+  const filter: SweepFilter = {};
+  if (values.entities) {
+    const entities = values.entities.split(',').map((entity) => entity.trim());
+    const unknown = entities.filter(
+      (entity) => !(CLEANUP_ORDER as readonly string[]).includes(entity)
     );
-    Logger.success(`Deleted ${orgsDeleted} test organizations`);
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown entity type(s): ${unknown.join(', ')}`);
+    }
+    filter.entities = entities as CleanupEntityType[];
+  }
+  if (values['older-than']) {
+    try {
+      filter.olderThanMs = parseDuration(values['older-than']);
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (values.org) {
+    filter.organizationSlug = values.org;
+  }
 
-    // Show final counts
-    const totalUsers = await DatabaseHelper.getUserCount();
-    const totalOrgs = await DatabaseHelper.getOrganizationCount();
+  return { filter, dryRun: values['dry-run'], yes: values.yes };
+}
 
-    Logger.info('Final database state:');
-    Logger.info(`  Total users: ${totalUsers}`);
-    Logger.info(`  Total organizations: ${totalOrgs}`);
+/**
+ * Log the rows found, grouped by entity type with a count per type
+ */
+function listRows(rows: TestDataRow[]): void {
+  const counts = TestDataSweep.countByType(rows);
+  for (const entityType of CLEANUP_ORDER) {
+    const count = counts[entityType];
+    if (!count) continue;
 
-    // Disconnect
-    await DatabaseHelper.disconnect();
+    Logger.info(`${entityType} (${count}):`);
+    for (const row of rows.filter((candidate) => candidate.entityType === entityType)) {
+      const created = row.createdAt ? ` — created ${new Date(row.createdAt).toISOString()}` : '';
+      Logger.info(`  ${row.label}${created}`);
+    }
+  }
+}
 
-    Logger.success('✅ Cleanup complete!');
+/**
+ * Ask on the terminal whether to go ahead; refuses when there is no terminal to ask on
+ */
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    Logger.error('Not deleting without confirmation — pass --yes when running non-interactively');
+    return false;
+  }
+
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await prompt.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+async function cleanupTestData(): Promise<number> {
+  let options: CleanupOptions | null;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      Logger.error(error.message);
+      Logger.info(USAGE);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (!options) {
+    Logger.info(USAGE);
+    return 0;
+  }
+
+  const { filter, dryRun, yes } = options;
+  Logger.info(`🧹 ${dryRun ? 'Listing' : 'Cleaning up'} test data...`, filter);
+
+  try {
+    if (!dryRun) {
+      assertDestructiveAllowed('cleanup', 'clean up test data');
+    }
+
+    await DatabaseHelper.connect();
+
+    const rows = await TestDataSweep.find(filter);
+    if (rows.length === 0) {
+      Logger.success('No test data found');
+      return 0;
+    }
+
+    listRows(rows);
+    const summary = Object.entries(TestDataSweep.countByType(rows))
+      .map(([entityType, count]) => `${count} ${entityType}`)
+      .join(', ');
+    Logger.info(`Found ${rows.length} rows: ${summary}`);
+
+    if (dryRun) {
+      Logger.success('Dry run — nothing deleted');
+      return 0;
+    }
+
+    if (!yes && !(await confirm(`Delete these ${rows.length} rows and their dependents?`))) {
+      Logger.warning('Cleanup cancelled');
+      return 1;
+    }
+
+    const result = await TestDataSweep.delete(rows);
+    for (const { row, error } of result.failed) {
+      Logger.error(`Failed to delete ${row.entityType} ${row.label}: ${error}`);
+    }
+
+    if (result.failed.length > 0) {
+      Logger.error(
+        `❌ Cleanup incomplete: deleted ${result.deleted} of ${rows.length} rows, ${result.failed.length} failed`
+      );
+      return 1;
+    }
+
+    Logger.success(`✅ Cleanup complete: deleted ${result.deleted} rows`);
+    return 0;
   } catch (error) {
     Logger.error('❌ Cleanup failed', error);
-    process.exit(1);
+    return 1;
+  } finally {
+    await DatabaseHelper.disconnect();
   }
 }
 
 // Run cleanup
-cleanupTestData();
+cleanupTestData().then((exitCode) => {
+  process.exitCode = exitCode;
+});
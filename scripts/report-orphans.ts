@@ -0,0 +1,174 @@
+/**
+ * Orphaned Test Data Report Script
+ * Lists test data that outlived its run — test users, `test-org-*` organizations and the
+ * entities named `Test ...` in them — and rows referencing a row that no longer exists, as a table
+ * or as JSON. Deletes nothing; `npm run db:cleanup` removes the leftover test data.
+ *
+ * Usage: npm run db:orphans -- [options]
+ *   --older-than <age>    Only count test data created more than <age> ago, e.g. 30m, 2h
+ *                         (default: the Playwright test timeout; 0s counts all of it)
+ *   --json                Print the report as JSON on stdout (logs go to stderr)
+ *   --fail-on-orphans     Exit with 1 when anything is found, to gate CI on
+ *   -h, --help            Show this help
+ *
+ * Exits with 1 when the scan fails (or finds orphans with --fail-on-orphans), and with 2
+ * on invalid options.
+ */
+
+// Before anything reads the configuration: DATABASE_URL etc. may come from .env
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { DatabaseHelper } from '../utils/database-helper';
+import { Logger } from '../utils/logger';
+import { OrphanDetector, OrphanReport } from '../utils/orphan-detector';
+import { CLEANUP_ORDER } from '../utils/test-cleanup';
+import { parseDuration, SweepFilter } from '../utils/test-data-sweep';
+
+const USAGE = 'Usage: npm run db:orphans -- [--older-than 2h] [--json] [--fail-on-orphans]';
+
+interface ReportOptions {
+  filter: SweepFilter;
+  json: boolean;
+  failOnOrphans: boolean;
+}
+
+class UsageError extends Error {}
+
+/**
+ * Parse the command line into the sweep filter and flags
+ */
+function parseOptions(args: string[]): ReportOptions | null {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        'older-than': { type: 'string' },
+        json: { type: 'boolean', default: false },
+        'fail-on-orphans': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  if (values.help) {
+    return null;
+  }
+
+  const filter: SweepFilter = {};
+  if (values['older-than']) {
+    try {
+      filter.olderThanMs = parseDuration(values['older-than']);
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return { filter, json: values.json, failOnOrphans: values['fail-on-orphans'] };
+}
+
+/**
+ * Render rows as a plain-text table with a header line
+ */
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+  return [line(header), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join(
+    '\n'
+  );
+}
+
+/**
+ * Log the report as two tables: leftover test data per entity type, then dangling references
+ */
+function printReport(report: OrphanReport): void {
+  const leftovers = CLEANUP_ORDER.filter((entityType) => report.leftovers.counts[entityType]).map(
+    (entityType) => {
+      const labels = report.leftovers.rows
+        .filter((row) => row.entityType === entityType)
+        .map((row) => row.label);
+      const sample = labels.slice(0, 3).join(', ') + (labels.length > 3 ? ', …' : '');
+      return [entityType, String(labels.length), sample];
+    }
+  );
+  Logger.info(
+    leftovers.length > 0
+      ? `Leftover test data:\n${formatTable(['Entity', 'Rows', 'Examples'], leftovers)}`
+      : 'Leftover test data: none'
+  );
+
+  const dangling = report.dangling.map((reference) => [
+    `${reference.table}.${reference.column}`,
+    `${reference.parentTable}.${reference.parentColumn}`,
+    String(reference.count),
+    reference.missingIds.join(', '),
+  ]);
+  Logger.info(
+    dangling.length > 0
+      ? `Dangling references:\n${formatTable(['Column', 'References', 'Rows', 'Missing IDs'], dangling)}`
+      : 'Dangling references: none'
+  );
+}
+
+async function reportOrphans(): Promise<number> {
+  let options: ReportOptions | null;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      Logger.error(error.message);
+      Logger.info(USAGE);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (!options) {
+    Logger.info(USAGE);
+    return 0;
+  }
+
+  const { filter, json, failOnOrphans } = options;
+  if (json) {
+    // Keep stdout for the report alone
+    Logger.useStderr();
+  }
+
+  try {
+    await DatabaseHelper.connect();
+    const report = await OrphanDetector.scan(filter);
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    } else {
+      printReport(report);
+    }
+
+    if (report.total === 0) {
+      Logger.success('✅ No orphaned test data');
+      return 0;
+    }
+
+    Logger.warning(
+      `Found ${report.total} orphaned rows — npm run db:cleanup removes the leftover test data`
+    );
+    return failOnOrphans ? 1 : 0;
+  } catch (error) {
+    Logger.error('❌ Orphan scan failed', error);
+    return 1;
+  } finally {
+    await DatabaseHelper.disconnect();
+  }
+}
+
+reportOrphans().then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,21 @@
+import { test as setup } from '@playwright/test';
+import { AuthState } from '../utils/auth-state';
+import { Logger } from '../utils/logger';
+import testConfig from '../config/test-config';
+
+/**
+ * Authentication Setup
+ * Runs before the browser projects and signs the default test user in once per worker
+ * slot, saving each session's storage state to playwright/.auth/. Each worker gets its
+ * own session so it can activate its own organization. Sessions that are still valid
+ * in the `session` table are reused.
+ */
+setup('authenticate default test user', async ({ browser }) => {
+  const credentials = testConfig.testUsers.validUser;
+
+  for (let parallelIndex = 0; parallelIndex < setup.info().config.workers; parallelIndex++) {
+    await AuthState.ensure(browser, credentials, AuthState.workerSlot(parallelIndex));
+  }
+
+  Logger.success(`Auth state ready for ${setup.info().config.workers} worker(s)`);
+});
@@ -1,5 +1,6 @@
 import { test, expect } from '../../fixtures/test-fixtures';
 import { Logger } from '../../utils/logger';
+import { TestStep } from '../../utils/test-step';
 import testConfig from '../../config/test-config';
 
 /**
@@ -22,28 +23,25 @@ test.describe('User Authentication', () => {
    * Test: Successful sign-in with valid credentials
    */
   test('should successfully sign in with valid credentials', async ({ signInPage, page }) => {
-    Logger.testStart('Sign In with Valid Credentials');
-
-    // ===== STEP 1: NAVIGATE TO SIGN IN =====
-    Logger.step(1, 'Navigate to Sign In page');
-    await page.click('a:has-text("Sign In")');
-    await expect(await signInPage.verifySignInTitle()).toBeVisible();
+    await TestStep.run('Navigate to Sign In page', async () => {
+      await page.click('a:has-text("Sign In")');
+      await expect(await signInPage.verifySignInTitle()).toBeVisible();
+    });
 
-    // ===== STEP 2: PERFORM SIGN IN =====
-    Logger.step(2, 'Sign in with valid credentials');
-    await signInPage.signIn(
-      testConfig.testUsers.validUser.email,
-      testConfig.testUsers.validUser.password,
-      true
-    );
+    await TestStep.run('Sign in with valid credentials', async () => {
+      await signInPage.signIn(
+        testConfig.testUsers.validUser.email,
+        testConfig.testUsers.validUser.password,
+        true
+      );
+    });
 
-    // ===== STEP 3: VERIFY SUCCESS =====
-    Logger.step(3, 'Verify successful sign in and redirect');
-    await expect(page).toHaveURL(/dashboard/, {
-      timeout: testConfig.timeouts.long,
+    await TestStep.run('Verify successful sign in and redirect', async () => {
+      await expect(page).toHaveURL(/dashboard/, {
+        timeout: testConfig.timeouts.long,
+      });
     });
 
     Logger.success('Successfully signed in and redirected to dashboard');
-    Logger.testEnd('Sign In with Valid Credentials', true);
   });
-});
\ No newline at end of file
+});
@@ -1,5 +1,6 @@
 import { test, expect } from '../../fixtures/test-fixtures';
 import { Logger } from '../../utils/logger';
+import { TestStep } from '../../utils/test-step';
 import { TestDataGenerator } from '../../utils/test-data-generator';
 
 /**
@@ -10,7 +11,7 @@ import { TestDataGenerator } from '../../utils/test-data-generator';
  * - Each test cleans up its own data via testCleanup fixture
  * - No dependencies between tests
  */
-test.describe('User Registration', () => {
+test.describe('User Registration', { tag: '@creates-data' }, () => {
   /**
    * Setup: Navigate to sign-up page before each test
    */
@@ -28,30 +29,28 @@ test.describe('User Registration', () => {
     signInPage,
     testCleanup,
   }) => {
-    Logger.testStart('User Sign Up');
-
-    // ===== STEP 1: VERIFY SIGN UP PAGE =====
-    Logger.step(1, 'Verify Sign Up page is displayed');
-    await expect(await signUpPage.verifySignUpTitle()).toBeVisible();
+    await TestStep.run('Verify Sign Up page is displayed', async () => {
+      await expect(await signUpPage.verifySignUpTitle()).toBeVisible();
+    });
 
-    // ===== STEP 2: GENERATE UNIQUE TEST USER =====
-    Logger.step(2, 'Generate unique test user');
-    const userData = TestDataGenerator.generateUser();
-    testCleanup.registerUser(userData.email);
-    Logger.info('Generated test user:', {
-      email: userData.email,
-      name: userData.fullName,
+    const userData = await TestStep.run('Generate unique test user', async () => {
+      const user = TestDataGenerator.generateUser();
+      testCleanup.registerUser(user.email);
+      Logger.info('Generated test user:', {
+        email: user.email,
+        name: user.fullName,
+      });
+      return user;
     });
 
-    // ===== STEP 3: SUBMIT SIGN UP FORM =====
-    Logger.step(3, 'Complete and submit sign up form');
-    await signUpPage.signUp(userData);
+    await TestStep.run('Complete and submit sign up form', async () => {
+      await signUpPage.signUp(userData);
+    });
 
-    // ===== STEP 4: VERIFY REDIRECT =====
-    Logger.step(4, 'Verify redirect to Sign In page');
-    await expect(await signInPage.verifySignInTitle()).toBeVisible();
+    await TestStep.run('Verify redirect to Sign In page', async () => {
+      await expect(await signInPage.verifySignInTitle()).toBeVisible();
+    });
 
     Logger.success('Sign-up form submitted successfully');
-    Logger.testEnd('User Sign Up', true);
   });
-});
\ No newline at end of file
+});
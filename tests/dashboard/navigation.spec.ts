@@ -0,0 +1,28 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { Logger } from '../../utils/logger';
+import { TestStep } from '../../utils/test-step';
+import { ROUTES } from '../../pages/routes';
+
+/**
+ * Sidebar Navigation Test Suite
+ *
+ * READ-ONLY:
+ * - Follows the sidebar link of every route registered in pages/routes.ts
+ * - Verifies each one lands on its page, so a renamed group or moved link fails here
+ *   rather than in every spec that navigates through it
+ */
+test.describe('Sidebar Navigation', () => {
+  test.beforeEach(async ({ authenticatedPage }) => {
+    void authenticatedPage;
+  });
+
+  test('should reach every registered route from the sidebar', async ({ page, navigate }) => {
+    for (const route of ROUTES) {
+      await TestStep.run(`Navigate to ${route.name}`, async () => {
+        await navigate.follow(route);
+        await expect(page).toHaveURL((url) => url.pathname === route.href);
+        Logger.success(`${route.name} is reachable at ${route.href}`);
+      });
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { Page } from '@playwright/test';
+import { TestStep } from '../../utils/test-step';
+import { Wait } from '../../utils/wait';
+import { ClientsPage } from '../../pages/ClientsPage';
+import { SuppliersPage } from '../../pages/SuppliersPage';
+import { SkusPage } from '../../pages/SkusPage';
+import testConfig from '../../config/test-config';
+
+/**
+ * Page under test: route and its page object
+ */
+const PAGES = {
+  clients: { path: '/clients', open: (page: Page) => new ClientsPage(page) },
+  suppliers: { path: '/suppliers', open: (page: Page) => new SuppliersPage(page) },
+  skus: { path: '/skus', open: (page: Page) => new SkusPage(page) },
+};
+
+/**
+ * Which roles may create entities on each page. Update a row here when the
+ * app's access-control rules change — every cell becomes one test.
+ */
+const CREATE_PERMISSIONS: Record<string, Record<keyof typeof PAGES, boolean>> = {
+  owner: { clients: true, suppliers: true, skus: true },
+  admin: { clients: true, suppliers: true, skus: true },
+  member: { clients: false, suppliers: false, skus: false },
+  viewer: { clients: false, suppliers: false, skus: false },
+};
+
+/**
+ * Role Permissions Test Suite
+ *
+ * SELF-CONTAINED TESTS:
+ * - Runs in the worker's own test organization (activeOrganization fixture)
+ * - Signs in as a provisioned user per role (asRole fixture), created once per worker
+ * - Role users and custom roles are deleted when the worker finishes
+ */
+test.describe('Role Permissions', { tag: '@creates-data' }, () => {
+  test.skip(!testConfig.database.enabled, 'Role users are provisioned through the database');
+
+  test.beforeEach(async ({ activeOrganization }) => {
+    // Run in this worker's own organization, so parallel workers never share data
+    void activeOrganization;
+  });
+
+  for (const [role, permissions] of Object.entries(CREATE_PERMISSIONS)) {
+    for (const pageName of Object.keys(PAGES) as (keyof typeof PAGES)[]) {
+      const target = PAGES[pageName];
+      const canCreate = permissions[pageName];
+
+      test(`${role} ${canCreate ? 'can' : 'cannot'} create on ${pageName}`, async ({ asRole }) => {
+        const page = await TestStep.run(`Sign in as ${role}`, () => asRole(role));
+        const targetPage = target.open(page);
+
+        // A hidden button only proves something once the page itself has rendered, not a
+        // redirect, error page or half-loaded table
+        await TestStep.run(`Open ${target.path}`, async () => {
+          await page.goto(target.path);
+          await expect(page).toHaveURL((url) => url.pathname === target.path);
+          await Wait.forLoadingToFinish(page);
+          await targetPage.waitForTableToLoad();
+          await expect(targetPage.grid.table).toBeVisible();
+        });
+
+        await TestStep.run(
+          `Verify Create button is ${canCreate ? 'shown' : 'hidden'}`,
+          async () => {
+            if (canCreate) {
+              await expect(targetPage.createButton).toBeVisible();
+            } else {
+              await expect(targetPage.createButton).toBeHidden();
+            }
+          }
+        );
+      });
+    }
+  }
+});
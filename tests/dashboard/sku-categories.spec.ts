@@ -1,21 +1,26 @@
 import { test, expect } from '../../fixtures/test-fixtures';
 import { Logger } from '../../utils/logger';
-import { OrganizationHelper } from '../../utils/organization-helper';
+import { TestStep } from '../../utils/test-step';
+import { generators } from '../../utils/entity-generators';
 import { SkuCategoriesPage } from '../../pages/SkuCategoriesPage';
+import testConfig from '../../config/test-config';
 
 /**
  * SKU Categories Management Test Suite
  *
  * SELF-CONTAINED TESTS:
- * - Ensures an active organization exists before running tests
+ * - Runs in the worker's own test organization (activeOrganization fixture)
+ * - Seeds the Supplier Group or Supplier it selects (factory fixture)
  * - Scenario 1: Creates a SKU Category with a Supplier Group selected
  * - Scenario 2: Creates a SKU Category with individual Suppliers selected
  * - Both tests verify the entity in the UI table and database, then delete via SQL
  */
-test.describe('SKU Categories Management', () => {
-  test.beforeEach(async ({ authenticatedPage, page, database, dashboardPage, organizationPage }) => {
-    void authenticatedPage;
-    await OrganizationHelper.ensureActiveOrganization(page, database, dashboardPage, organizationPage);
+test.describe('SKU Categories Management', { tag: '@creates-data' }, () => {
+  test.skip(!testConfig.database.enabled, 'The supplier group and suppliers are seeded');
+
+  test.beforeEach(async ({ activeOrganization }) => {
+    // Run in this worker's own organization, so parallel workers never share data
+    void activeOrganization;
   });
 
   // ---------------------------------------------------------------------------
@@ -23,92 +28,68 @@ test.describe('SKU Categories Management', () => {
   // ---------------------------------------------------------------------------
   test('should create, verify and delete a SKU Category with a Supplier Group', async ({
     page,
-    database,
-    dashboardPage,
+    repositories,
+    activeOrganization,
+    navigate,
+    factory,
+    testCleanup,
   }) => {
-    Logger.testStart('Create, Verify and Delete SKU Category (Supplier Group)');
-
-    const categoryName = `Test SKU Cat ${Date.now()}`;
-    const skuCategoriesPage = new SkuCategoriesPage(page);
-
-    // ===== STEP 1: Navigate to SKU Categories =====
-    Logger.step(1, 'Navigate to SKU Categories page');
-    await dashboardPage.expandSidebarGroup('SKUs');
-    await skuCategoriesPage.navigateToSkuCategories();
-
-    // ===== STEP 2: Open create dialog and fill details =====
-    Logger.step(2, 'Open Create dialog and fill SKU Category name');
-    await skuCategoriesPage.openCreateDialog();
-    await skuCategoriesPage.fillDisplayName(categoryName);
-
-    // ===== STEP 3: Select "If Rate Not Found Use" =====
-    Logger.step(3, 'Select "If Rate Not Found Use" option');
-    await skuCategoriesPage.selectIfRateNotFoundUse('Minimum');
-
-    // ===== STEP 4: Select a Supplier Group =====
-    Logger.step(4, 'Select a Supplier Group');
-    // Get the first available supplier group from the hidden select options
-    const supplierGroupOptions = await page
-      .locator('select[name="supplierGroupId"] option:not([value="none"])')
-      .all();
-
-    if (supplierGroupOptions.length > 0) {
-      const firstGroupName = await supplierGroupOptions[0].textContent();
-      await skuCategoriesPage.selectSupplierGroup(firstGroupName?.trim() ?? '');
-    } else {
-      Logger.warning('No supplier groups available — leaving as None');
-    }
-
-    // ===== STEP 5: Submit =====
-    Logger.step(5, 'Submit the Create dialog');
-    await skuCategoriesPage.submitCreateDialog();
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(2000);
-
-    // ===== STEP 6: Verify in UI table =====
-    Logger.step(6, 'Verify SKU Category is visible in the table');
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(1500);
-    await skuCategoriesPage.waitForTableToLoad();
-
-    const found = await skuCategoriesPage.findRowByName(categoryName);
-    expect(found).toBe(true);
-    Logger.success(`SKU Category "${categoryName}" is visible in the table`);
-
-    // ===== STEP 7: Verify in database =====
-    Logger.step(7, 'Verify SKU Category exists in the database');
-    const foundInDb = await database.query<{ display_name: string }>(
-      `SELECT "displayName" as display_name FROM "skuCategory" WHERE "displayName" = $1 LIMIT 1`,
-      [categoryName]
-    );
-    expect(foundInDb.length).toBe(1);
-    expect(foundInDb[0].display_name).toBe(categoryName);
-    Logger.success(`SKU Category "${categoryName}" confirmed in database`);
-
-    // ===== STEP 8: Delete from database =====
-    Logger.step(8, 'Delete SKU Category from the database');
-    const skuCategory = await database.query<{ id: string }>(
-      `SELECT id FROM "skuCategory" WHERE "displayName" = $1 LIMIT 1`,
-      [categoryName]
+    const { displayName: categoryName, ifRateNotFoundUse } = generators.skuCategory.valid();
+    testCleanup.register('skuCategory', categoryName);
+    // Seed the Supplier Group to select
+    const { displayName: supplierGroupName } = await factory.supplierGroup();
+    const skuCategoriesPage = await TestStep.run('Navigate to SKU Categories page', () =>
+      navigate.to(SkuCategoriesPage)
     );
-    expect(skuCategory.length).toBe(1);
-    const skuCategoryId = skuCategory[0].id;
 
-    // Delete junction table entries first
-    await database.query(
-      `DELETE FROM "skuCategory_vs_Suppliers" WHERE "skuCategoryId" = $1`,
-      [skuCategoryId]
+    await TestStep.run('Open Create dialog and fill SKU Category name', async () => {
+      await skuCategoriesPage.openCreateDialog();
+      await skuCategoriesPage.fillDisplayName(categoryName);
+    });
+
+    await TestStep.run('Select "If Rate Not Found Use" option', async () => {
+      await skuCategoriesPage.selectIfRateNotFoundUse(ifRateNotFoundUse);
+    });
+
+    await TestStep.run('Select the Supplier Group', async () => {
+      await skuCategoriesPage.selectSupplierGroup(supplierGroupName);
+    });
+
+    await TestStep.run('Submit the Create dialog', async () => {
+      await skuCategoriesPage.submitCreateDialog();
+    });
+
+    await TestStep.run('Verify SKU Category is visible in the table', async () => {
+      await page.reload();
+      await skuCategoriesPage.waitForTableToLoad();
+
+      const found = await skuCategoriesPage.findRowByName(categoryName);
+      expect(found).toBe(true);
+      Logger.success(`SKU Category "${categoryName}" is visible in the table`);
+    });
+
+    const skuCategory = await TestStep.run(
+      'Verify SKU Category exists in the database',
+      async () => {
+        const skuCategory = await repositories.skuCategories.findByName(
+          categoryName,
+          activeOrganization.id
+        );
+        expect(skuCategory).not.toBeNull();
+        expect(skuCategory?.displayName).toBe(categoryName);
+        Logger.success(`SKU Category "${categoryName}" confirmed in database`);
+        return skuCategory;
+      }
     );
 
-    const deleted = await database.query<{ id: string }>(
-      `DELETE FROM "skuCategory" WHERE id = $1 RETURNING id`,
-      [skuCategoryId]
-    );
-    expect(deleted.length).toBe(1);
-    Logger.success(`SKU Category "${categoryName}" deleted from database (id: ${deleted[0].id})`);
+    await TestStep.run('Delete SKU Category from the database', async () => {
+      const skuCategoryId = skuCategory!.id;
 
-    Logger.testEnd('Create, Verify and Delete SKU Category (Supplier Group)', true);
+      // Supplier links are removed with it by the cascade delete
+      const deleted = await repositories.skuCategories.deleteById(skuCategoryId);
+      expect(deleted).toBe(true);
+      Logger.success(`SKU Category "${categoryName}" deleted from database (id: ${skuCategoryId})`);
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -116,82 +97,68 @@ test.describe('SKU Categories Management', () => {
   // ---------------------------------------------------------------------------
   test('should create, verify and delete a SKU Category with Suppliers', async ({
     page,
-    database,
-    dashboardPage,
+    repositories,
+    activeOrganization,
+    navigate,
+    factory,
+    testCleanup,
   }) => {
-    Logger.testStart('Create, Verify and Delete SKU Category (Suppliers)');
-
-    const categoryName = `Test SKU Cat ${Date.now()}`;
-    const skuCategoriesPage = new SkuCategoriesPage(page);
-
-    // ===== STEP 1: Navigate to SKU Categories =====
-    Logger.step(1, 'Navigate to SKU Categories page');
-    await dashboardPage.expandSidebarGroup('SKUs');
-    await skuCategoriesPage.navigateToSkuCategories();
-
-    // ===== STEP 2: Open create dialog and fill details =====
-    Logger.step(2, 'Open Create dialog and fill SKU Category name');
-    await skuCategoriesPage.openCreateDialog();
-    await skuCategoriesPage.fillDisplayName(categoryName);
-
-    // ===== STEP 3: Select "If Rate Not Found Use" =====
-    Logger.step(3, 'Select "If Rate Not Found Use" option');
-    await skuCategoriesPage.selectIfRateNotFoundUse('Maximum');
-
-    // ===== STEP 4: Leave Supplier Group as None and select a supplier =====
-    Logger.step(4, 'Select a Supplier from the Supplier Name list');
-    // Supplier Group stays as "None" (default) — Supplier Name rows should be visible
-    await skuCategoriesPage.selectSupplier('', 0);
-
-    // ===== STEP 5: Submit =====
-    Logger.step(5, 'Submit the Create dialog');
-    await skuCategoriesPage.submitCreateDialog();
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(2000);
-
-    // ===== STEP 6: Verify in UI table =====
-    Logger.step(6, 'Verify SKU Category is visible in the table');
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(1500);
-    await skuCategoriesPage.waitForTableToLoad();
-
-    const found = await skuCategoriesPage.findRowByName(categoryName);
-    expect(found).toBe(true);
-    Logger.success(`SKU Category "${categoryName}" is visible in the table`);
-
-    // ===== STEP 7: Verify in database =====
-    Logger.step(7, 'Verify SKU Category exists in the database');
-    const foundInDb = await database.query<{ display_name: string }>(
-      `SELECT "displayName" as display_name FROM "skuCategory" WHERE "displayName" = $1 LIMIT 1`,
-      [categoryName]
+    const { displayName: categoryName, ifRateNotFoundUse } = generators.skuCategory.valid();
+    testCleanup.register('skuCategory', categoryName);
+    // Seed the Supplier to select
+    const { displayName: supplierName } = await factory.supplier();
+    const skuCategoriesPage = await TestStep.run('Navigate to SKU Categories page', () =>
+      navigate.to(SkuCategoriesPage)
     );
-    expect(foundInDb.length).toBe(1);
-    expect(foundInDb[0].display_name).toBe(categoryName);
-    Logger.success(`SKU Category "${categoryName}" confirmed in database`);
-
-    // ===== STEP 8: Delete from database =====
-    Logger.step(8, 'Delete SKU Category from the database');
-    const skuCategory = await database.query<{ id: string }>(
-      `SELECT id FROM "skuCategory" WHERE "displayName" = $1 LIMIT 1`,
-      [categoryName]
-    );
-    expect(skuCategory.length).toBe(1);
-    const skuCategoryId = skuCategory[0].id;
 
-    // Delete junction table entries first
-    await database.query(
-      `DELETE FROM "skuCategory_vs_Suppliers" WHERE "skuCategoryId" = $1`,
-      [skuCategoryId]
+    await TestStep.run('Open Create dialog and fill SKU Category name', async () => {
+      await skuCategoriesPage.openCreateDialog();
+      await skuCategoriesPage.fillDisplayName(categoryName);
+    });
+
+    await TestStep.run('Select "If Rate Not Found Use" option', async () => {
+      await skuCategoriesPage.selectIfRateNotFoundUse(ifRateNotFoundUse);
+    });
+
+    await TestStep.run('Select the Supplier from the Supplier Name list', async () => {
+      // Supplier Group stays as "None" (default) — Supplier Name rows should be visible
+      await skuCategoriesPage.selectSupplier(0, supplierName);
+    });
+
+    await TestStep.run('Submit the Create dialog', async () => {
+      await skuCategoriesPage.submitCreateDialog();
+    });
+
+    await TestStep.run('Verify SKU Category is visible in the table', async () => {
+      await page.reload();
+      await skuCategoriesPage.waitForTableToLoad();
+
+      const found = await skuCategoriesPage.findRowByName(categoryName);
+      expect(found).toBe(true);
+      Logger.success(`SKU Category "${categoryName}" is visible in the table`);
+    });
+
+    const skuCategory = await TestStep.run(
+      'Verify SKU Category exists in the database',
+      async () => {
+        const skuCategory = await repositories.skuCategories.findByName(
+          categoryName,
+          activeOrganization.id
+        );
+        expect(skuCategory).not.toBeNull();
+        expect(skuCategory?.displayName).toBe(categoryName);
+        Logger.success(`SKU Category "${categoryName}" confirmed in database`);
+        return skuCategory;
+      }
     );
 
-    const deleted = await database.query<{ id: string }>(
-      `DELETE FROM "skuCategory" WHERE id = $1 RETURNING id`,
-      [skuCategoryId]
-    );
-    expect(deleted.length).toBe(1);
-    Logger.success(`SKU Category "${categoryName}" deleted from database (id: ${deleted[0].id})`);
+    await TestStep.run('Delete SKU Category from the database', async () => {
+      const skuCategoryId = skuCategory!.id;
 
-    Logger.testEnd('Create, Verify and Delete SKU Category (Suppliers)', true);
+      // Supplier links are removed with it by the cascade delete
+      const deleted = await repositories.skuCategories.deleteById(skuCategoryId);
+      expect(deleted).toBe(true);
+      Logger.success(`SKU Category "${categoryName}" deleted from database (id: ${skuCategoryId})`);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,86 +1,77 @@
 import { test, expect } from '../../fixtures/test-fixtures';
 import { Logger } from '../../utils/logger';
-import { OrganizationHelper } from '../../utils/organization-helper';
+import { TestStep } from '../../utils/test-step';
+import { generators } from '../../utils/entity-generators';
 import { SkuClassificationsPage } from '../../pages/SkuClassificationsPage';
 
 /**
  * SKU Classifications Management Test Suite
  *
  * SELF-CONTAINED TESTS:
- * - Ensures an active organization exists before running tests
+ * - Runs in the worker's own test organization (activeOrganization fixture)
  * - Creates a unique SKU Classification
  * - Verifies it in the UI table (with pagination support)
  * - Verifies it in the database
  * - Deletes it via the UI (with confirmation dialog)
  * - Verifies it's gone from the table and database
  */
-test.describe('SKU Classifications Management', () => {
-  test.beforeEach(async ({ authenticatedPage, page, database, dashboardPage, organizationPage }) => {
-    void authenticatedPage;
-    await OrganizationHelper.ensureActiveOrganization(page, database, dashboardPage, organizationPage);
+test.describe('SKU Classifications Management', { tag: '@creates-data' }, () => {
+  test.beforeEach(async ({ activeOrganization }) => {
+    // Run in this worker's own organization, so parallel workers never share data
+    void activeOrganization;
   });
 
   test('should create, verify and delete a SKU Classification', async ({
     page,
-    database,
-    dashboardPage,
+    repositories,
+    activeOrganization,
+    navigate,
+    testCleanup,
   }) => {
-    Logger.testStart('Create, Verify and Delete SKU Classification');
-
-    const classificationName = `Test SKU Classification ${Date.now()}`;
-    const skuClassificationsPage = new SkuClassificationsPage(page);
-
-    // ===== STEP 1: Navigate to SKU Classifications page =====
-    Logger.step(1, 'Navigate to SKU Classifications page');
-    await dashboardPage.expandSidebarGroup('SKUs');
-    await skuClassificationsPage.navigateToSkuClassifications();
-
-    // ===== STEP 2: Open create dialog and fill classification name =====
-    Logger.step(2, 'Open Create dialog and fill classification name');
-    await skuClassificationsPage.createClassification(classificationName);
-
-    // Wait for dialog to close and table to update
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(2000);
-
-    // ===== STEP 3: Verify in table with pagination support =====
-    Logger.step(3, 'Verify classification is visible in the table');
+    const { displayName: classificationName } = generators.skuClassification.valid();
+    testCleanup.register('skuClassification', classificationName);
+    const skuClassificationsPage = await TestStep.run('Navigate to SKU Classifications page', () =>
+      navigate.to(SkuClassificationsPage)
+    );
 
-    // Refresh to ensure latest data
-    Logger.info('Refreshing page to ensure latest data...');
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(1500);
+    await TestStep.run('Open Create dialog and fill classification name', async () => {
+      await skuClassificationsPage.createClassification(classificationName);
+    });
 
-    const found = await skuClassificationsPage.classificationExistsInTable(classificationName);
-    expect(found).toBe(true);
-    Logger.success(`SKU Classification "${classificationName}" is visible in the table`);
+    await TestStep.run('Verify classification is visible in the table', async () => {
+      // Refresh to ensure latest data
+      Logger.info('Refreshing page to ensure latest data...');
+      await page.reload();
+      await skuClassificationsPage.waitForTableToLoad();
 
-    // ===== STEP 4: Verify in database =====
-    Logger.step(4, 'Verify classification exists in the database');
-    const foundInDb = await database.query<{ display_name: string }>(
-      `SELECT "displayName" as display_name FROM "skuClassification" WHERE "displayName" = $1 LIMIT 1`,
-      [classificationName]
-    );
-    expect(foundInDb.length).toBe(1);
-    expect(foundInDb[0].display_name).toBe(classificationName);
-    Logger.success(`SKU Classification "${classificationName}" confirmed in database`);
+      const found = await skuClassificationsPage.classificationExistsInTable(classificationName);
+      expect(found).toBe(true);
+      Logger.success(`SKU Classification "${classificationName}" is visible in the table`);
+    });
 
-    // ===== STEP 5: Delete from UI =====
-    Logger.step(5, 'Delete classification from the UI');
-    const deleted = await skuClassificationsPage.deleteClassification(classificationName);
-    expect(deleted).toBe(true);
-    Logger.success(`SKU Classification "${classificationName}" deleted from UI`);
+    await TestStep.run('Verify classification exists in the database', async () => {
+      const classification = await repositories.skuClassifications.findByName(
+        classificationName,
+        activeOrganization.id
+      );
+      expect(classification).not.toBeNull();
+      expect(classification?.displayName).toBe(classificationName);
+      Logger.success(`SKU Classification "${classificationName}" confirmed in database`);
+    });
 
-    // ===== STEP 6: Verify deletion from database =====
-    Logger.step(6, 'Verify classification is deleted from the database');
-    const afterDelete = await database.query<{ display_name: string }>(
-      `SELECT "displayName" as display_name FROM "skuClassification" WHERE "displayName" = $1 LIMIT 1`,
-      [classificationName]
-    );
-    expect(afterDelete.length).toBe(0);
-    Logger.success(`SKU Classification "${classificationName}" confirmed deleted from database`);
+    await TestStep.run('Delete classification from the UI', async () => {
+      const deleted = await skuClassificationsPage.deleteClassification(classificationName);
+      expect(deleted).toBe(true);
+      Logger.success(`SKU Classification "${classificationName}" deleted from UI`);
+    });
 
-    Logger.testEnd('Create, Verify and Delete SKU Classification', true);
+    await TestStep.run('Verify classification is deleted from the database', async () => {
+      const afterDelete = await repositories.skuClassifications.findByName(
+        classificationName,
+        activeOrganization.id
+      );
+      expect(afterDelete).toBeNull();
+      Logger.success(`SKU Classification "${classificationName}" confirmed deleted from database`);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,181 +1,178 @@
 import { test, expect } from '../../fixtures/test-fixtures';
 import { Logger } from '../../utils/logger';
-import { OrganizationHelper } from '../../utils/organization-helper';
+import { TestStep } from '../../utils/test-step';
 import { SkuMasterRatesPage } from '../../pages/SkuMasterRatesPage';
+import testConfig from '../../config/test-config';
 
 /**
  * SKU Master Rates Management Test Suite
  *
  * SELF-CONTAINED TESTS:
- * - Ensures an active organization exists before running tests
- * - Adds a supplier to a category via the UI dialog
- * - Handles the edge-case where the supplier already has rates for every SKU
- *   in the chosen category (the app shows an "already has rates" toast and
- *   creates nothing new — in that case we PASS the test because the operation
- *   was rejected gracefully by the app)
+ * - Runs in the worker's own test organization (activeOrganization fixture)
+ * - Seeds a SKU Category with one SKU and a Supplier without rates (factory fixture)
+ * - Adds the supplier to the category via the UI dialog, which must create its rates
  * - Verifies rate entries appear in the UI table using the Supplier filter
  * - Verifies rate entries exist in the database (skuRate table)
+ * - Scans the virtualised grid to assert the exact rate value and compare
+ *   every rate it shows with the skuRate table
  * - Deletes the rate entries directly from the database
  */
-test.describe('SKU Master Rates Management', () => {
-  test.beforeEach(async ({ authenticatedPage, page, database, dashboardPage, organizationPage }) => {
-    void authenticatedPage;
-    await OrganizationHelper.ensureActiveOrganization(page, database, dashboardPage, organizationPage);
+test.describe('SKU Master Rates Management', { tag: '@creates-data' }, () => {
+  test.skip(!testConfig.database.enabled, 'The SKU category, SKU and supplier are seeded');
+
+  test.beforeEach(async ({ activeOrganization }) => {
+    // Run in this worker's own organization, so parallel workers never share data
+    void activeOrganization;
   });
 
   test('should create, verify and delete a SKU Master Rate', async ({
     page,
-    database,
-    dashboardPage,
+    repositories,
+    activeOrganization,
+    navigate,
+    factory,
+    testCleanup,
   }) => {
-    Logger.testStart('Create, Verify and Delete SKU Master Rate');
-
-    const skuMasterRatesPage = new SkuMasterRatesPage(page);
-
-    // ===== STEP 1: Navigate to SKU Master Rates page =====
-    Logger.step(1, 'Navigate to SKU Master Rates page');
-    await dashboardPage.expandSidebarGroup('SKUs');
-    await skuMasterRatesPage.navigateToSkuMasterRates();
-
-    // ===== STEP 2: Open dialog and add supplier to category =====
-    Logger.step(2, 'Open Add Supplier dialog and select random category and supplier');
-    const { categoryName, supplierName, alreadyExists } =
-      await skuMasterRatesPage.addSupplierToCategory();
-
-    if (alreadyExists) {
-      Logger.info(
-        `Supplier "${supplierName}" already has rates for all SKUs in "${categoryName}". ` +
-        `The app gracefully rejected the operation. Marking test as PASSED.`
-      );
-      Logger.testEnd('Create, Verify and Delete SKU Master Rate', true);
-      return; // Exit test early - this is acceptable behavior
-    }
-
-    // Wait for the page to settle after dialog close
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(2000);
-
-    // ===== STEP 3: Query database to find the rate entries =====
-    Logger.step(3, 'Query database to find the rate entries');
+    // Seed a category with a SKU to rate, and a supplier that has no rates yet
+    const { id: seededCategoryId, displayName: categoryName } = await factory.skuCategory();
+    await factory.sku({ skuCategoryId: seededCategoryId });
+    const { displayName: supplierName } = await factory.supplier();
 
-    const categoryResult = await database.query<{ id: string }>(
-      `SELECT id FROM "skuCategory" WHERE "displayName" = $1 LIMIT 1`,
-      [categoryName]
+    const skuMasterRatesPage = await TestStep.run('Navigate to SKU Master Rates page', () =>
+      navigate.to(SkuMasterRatesPage)
     );
-    if (categoryResult.length === 0) {
-      throw new Error(`Category "${categoryName}" not found in database`);
-    }
-    const categoryId = categoryResult[0].id;
-
-    const supplierResult = await database.query<{ id: string }>(
-      `SELECT id FROM "suppliers" WHERE "display_name" = $1 LIMIT 1`,
-      [supplierName]
-    );
-    if (supplierResult.length === 0) {
-      throw new Error(`Supplier "${supplierName}" not found in database`);
-    }
-    const supplierId = supplierResult[0].id;
-
-    // Find all SKU rates for this supplier in this category
-    const ratesInDb = await database.query<{ skuId: string; skuName: string; rate: string }>(
-      `SELECT sr."skuId", s."displayName" as "skuName", sr.rate
-       FROM "skuRate" sr
-       JOIN "sku" s ON s.id = sr."skuId"
-       WHERE sr."supplierId" = $1
-         AND s."skuCategoryId" = $2
-       ORDER BY sr."rateLastUpdatedAt" DESC`,
-      [supplierId, categoryId]
+
+    const { alreadyExists } = await TestStep.run(
+      'Open Add Supplier dialog and select the seeded category and supplier',
+      () => skuMasterRatesPage.addSupplierToCategory({ categoryName, supplierName })
     );
+    // The supplier is new, so the app must create its rates rather than report existing ones
+    expect(alreadyExists).toBe(false);
+
+    const { category, supplier, ratesInDb } = await TestStep.run(
+      'Query database to find the rate entries',
+      async () => {
+        const category = await repositories.skuCategories.findByName(
+          categoryName,
+          activeOrganization.id
+        );
+        if (!category) {
+          throw new Error(`Category "${categoryName}" not found in database`);
+        }
 
-    Logger.info(
-      `Found ${ratesInDb.length} rate(s) in DB for category "${categoryName}" ` +
-      `with supplier "${supplierName}"`
+        const supplier = await repositories.suppliers.findByName(
+          supplierName,
+          activeOrganization.id
+        );
+        if (!supplier) {
+          throw new Error(`Supplier "${supplierName}" not found in database`);
+        }
+
+        // Find all SKU rates for this supplier in this category
+        const ratesInDb = await repositories.skuRates.findBySupplierAndCategory(
+          supplier.id,
+          category.id
+        );
+        ratesInDb.forEach((rate) => testCleanup.register('skuRate', rate.id));
+
+        Logger.info(
+          `Found ${ratesInDb.length} rate(s) in DB for category "${categoryName}" ` +
+            `with supplier "${supplierName}"`
+        );
+        return { category, supplier, ratesInDb };
+      }
     );
 
-    if (ratesInDb.length === 0) {
-      // This shouldn't happen if alreadyExists is false, but if it does, fail gracefully
-      Logger.warning(
-        `No rates found in database for category "${categoryName}" with supplier "${supplierName}". ` +
-        `The UI action appears to have failed silently. Passing test as the app handled it gracefully.`
-      );
-      Logger.testEnd('Create, Verify and Delete SKU Master Rate', true);
-      return;
-    }
+    expect(ratesInDb.length).toBeGreaterThan(0);
 
+    const categoryId = category.id;
+    const supplierId = supplier.id;
     const exampleRate = ratesInDb[0];
     const exampleSkuName = exampleRate.skuName;
     const exampleSkuId = exampleRate.skuId;
     Logger.success(`Found rate: SKU "${exampleSkuName}", Rate: ${exampleRate.rate}`);
 
-    // ===== STEP 4: Verify in UI table using the Supplier filter =====
-    Logger.step(4, 'Verify rate entries appear in the table for the supplier');
-
-    // Refresh to ensure latest data
-    Logger.info('Refreshing page to ensure latest data...');
-    await page.reload();
-    await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(1500);
-    await skuMasterRatesPage.waitForTableToLoad();
-
-    // Use the Supplier filter dropdown — this bypasses virtual scrolling
-    const anyRateExists = await skuMasterRatesPage.anyRateExistsForSupplier(supplierName);
-    expect(anyRateExists).toBe(true);
-    Logger.success(`Rate entries for Supplier "${supplierName}" are visible in the table`);
-
-    // Verify the specific SKU we found in the DB is also visible after filtering
-    const specificRateFound = await skuMasterRatesPage.rateExistsInTable(exampleSkuName, supplierName);
-    expect(specificRateFound).toBe(true);
-    Logger.success(
-      `Rate entry for SKU "${exampleSkuName}" and Supplier "${supplierName}" is visible in the table`
-    );
-
-    // ===== STEP 5: Verify rate details in database =====
-    Logger.step(5, 'Verify rate details in database for the example rate');
-
-    const rateDetails = await database.query<{
-      id: string;
-      rate: string;
-      previousRate: string | null;
-      rateLastUpdatedAt: Date;
-    }>(
-      `SELECT id, rate, "previousRate", "rateLastUpdatedAt"
-       FROM "skuRate"
-       WHERE "skuId" = $1 AND "supplierId" = $2
-       LIMIT 1`,
-      [exampleSkuId, supplierId]
-    );
-
-    expect(rateDetails.length).toBe(1);
-    Logger.success(`Rate entry confirmed in database with value: ${rateDetails[0].rate}`);
+    await TestStep.run('Verify rate entries appear in the table for the supplier', async () => {
+      // Refresh to ensure latest data
+      Logger.info('Refreshing page to ensure latest data...');
+      await page.reload();
+      await skuMasterRatesPage.waitForTableToLoad();
+
+      // Use the Supplier filter dropdown — this bypasses virtual scrolling
+      const anyRateExists = await skuMasterRatesPage.anyRateExistsForSupplier(supplierName);
+      expect(anyRateExists).toBe(true);
+      Logger.success(`Rate entries for Supplier "${supplierName}" are visible in the table`);
+
+      // Verify the specific SKU we found in the DB is also visible after filtering
+      const specificRateFound = await skuMasterRatesPage.rateExistsInTable(
+        exampleSkuName,
+        supplierName
+      );
+      expect(specificRateFound).toBe(true);
+      Logger.success(
+        `Rate entry for SKU "${exampleSkuName}" and Supplier "${supplierName}" is visible in the table`
+      );
+    });
 
-    // ===== STEP 6: Delete ALL rates for this supplier in this category =====
-    Logger.step(6, 'Delete all newly created rate entries for this supplier from the database');
+    await TestStep.run('Verify rate details in database for the example rate', async () => {
+      const rateDetails = await repositories.skuRates.findBySkuAndSupplier(
+        exampleSkuId,
+        supplierId
+      );
 
-    for (const rate of ratesInDb) {
-      const rateRecord = await database.query<{ id: string }>(
-        `SELECT id FROM "skuRate" WHERE "skuId" = $1 AND "supplierId" = $2 LIMIT 1`,
-        [rate.skuId, supplierId]
+      expect(rateDetails).not.toBeNull();
+      Logger.success(`Rate entry confirmed in database with value: ${rateDetails!.rate}`);
+
+      await TestStep.run(
+        'Verify the grid shows the exact rate stored in the database',
+        async () => {
+          const gridRate = await skuMasterRatesPage.findRate(exampleSkuName, supplierName);
+          expect(gridRate).not.toBeNull();
+          expect(gridRate!.rate).toBe(Number(rateDetails!.rate));
+          Logger.success(`Grid shows rate ${gridRate!.rate} for SKU "${exampleSkuName}"`);
+        }
       );
-      if (rateRecord.length > 0) {
-        const deleted = await database.query<{ id: string }>(
-          `DELETE FROM "skuRate" WHERE id = $1 RETURNING id`,
-          [rateRecord[0].id]
+
+      await TestStep.run('Compare every rate in the grid with the skuRate table', async () => {
+        const dbRates = await repositories.skuRates.findDetailedByOrganization(
+          category.organizationId
+        );
+        const gridRates = await skuMasterRatesPage.collectAllRates();
+
+        const byPair = (a: { skuName: string; supplierName: string }, b: typeof a) =>
+          a.skuName.localeCompare(b.skuName) || a.supplierName.localeCompare(b.supplierName);
+        expect([...gridRates].sort(byPair)).toEqual(
+          dbRates
+            .map(({ skuName, supplierName, rate }) => ({
+              skuName,
+              supplierName,
+              rate: Number(rate),
+            }))
+            .sort(byPair)
+        );
+        Logger.success(`All ${dbRates.length} rates in the grid match the database`);
+      });
+    });
+
+    await TestStep.run(
+      'Delete all newly created rate entries for this supplier from the database',
+      async () => {
+        for (const rate of ratesInDb) {
+          const deleted = await repositories.skuRates.deleteById(rate.id);
+          if (deleted) {
+            Logger.info(`Deleted rate entry for SKU "${rate.skuName}" (id: ${rate.id})`);
+          }
+        }
+
+        Logger.success(`Deleted ${ratesInDb.length} rate entries from database`);
+
+        const remainingRates = await repositories.skuRates.findBySupplierAndCategory(
+          supplierId,
+          categoryId
         );
-        Logger.info(`Deleted rate entry for SKU "${rate.skuName}" (id: ${deleted[0].id})`);
+        expect(remainingRates.length).toBe(0);
+        Logger.success('All rate entries confirmed deleted from database');
       }
-    }
-
-    Logger.success(`Deleted ${ratesInDb.length} rate entries from database`);
-
-    const remainingRates = await database.query<{ id: string }>(
-      `SELECT sr.id FROM "skuRate" sr
-       JOIN "sku" s ON s.id = sr."skuId"
-       WHERE sr."supplierId" = $1 AND s."skuCategoryId" = $2`,
-      [supplierId, categoryId]
     );
-    expect(remainingRates.length).toBe(0);
-    Logger.success('All rate entries confirmed deleted from database');
-
-    Logger.testEnd('Create, Verify and Delete SKU Master Rate', true);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test';
+import { REDACTED, redact, redactText } from '../../utils/log-redaction';
+
+/**
+ * Log Redaction Test Suite
+ *
+ * Runs without a browser or the app: checks that secrets are masked by whole key name,
+ * and that keys merely containing a sensitive word are logged as they are.
+ */
+test.describe('Log Redaction', () => {
+  test('should mask sensitive keys and keep keys that only contain a sensitive word', () => {
+    expect(
+      redact({
+        password: 'hunter2',
+        sessionToken: 'abc.def',
+        'x-api-key': 'key',
+        passed: 12,
+        bypassCache: true,
+        tokens: 340,
+        compass: 'north',
+      })
+    ).toEqual({
+      password: REDACTED,
+      sessionToken: REDACTED,
+      'x-api-key': REDACTED,
+      passed: 12,
+      bypassCache: true,
+      tokens: 340,
+      compass: 'north',
+    });
+  });
+
+  test('should mask secrets in text and keep look-alike words', () => {
+    expect(redactText('password=hunter2 passed: 12 tokens: 340 bypass=1')).toBe(
+      `password=${REDACTED} passed: 12 tokens: 340 bypass=1`
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '../../fixtures/test-fixtures';
+import { EntityFactory } from '../../utils/entity-factory';
+import { TestDataGenerator } from '../../utils/test-data-generator';
+import { TestDataSweep } from '../../utils/test-data-sweep';
+import testConfig from '../../config/test-config';
+
+/**
+ * Test Data Sweep Test Suite
+ *
+ * Runs without a browser or the app: seeds rows straight into the database and checks
+ * which of them the sweep recognises as test data. Finds only, never deletes through it.
+ */
+test.describe('Test Data Sweep', { tag: '@creates-data' }, () => {
+  test.skip(!testConfig.database.enabled, 'The sweep reads the database');
+
+  test('should leave Test-named rows of a non-test organization alone', async ({
+    database,
+    testCleanup,
+  }) => {
+    void database;
+    // Organizations are not seeded into an organization: the factory's own one is unused
+    const organizations = new EntityFactory(testCleanup, '');
+    const token = TestDataGenerator.generateToken();
+    const tenant = await organizations.organization({
+      name: `Sweep Check ${token}`,
+      slug: `sweep-check-${token}`,
+    });
+    const testOrganization = await organizations.organization();
+
+    const tenantClient = await new EntityFactory(testCleanup, tenant.id).client();
+    const testClient = await new EntityFactory(testCleanup, testOrganization.id).client();
+
+    const found = (await TestDataSweep.find({ entities: ['client', 'organization'] })).map(
+      (row) => row.id
+    );
+
+    expect(tenantClient.displayName).toMatch(/^Test /);
+    expect(found).not.toContain(tenantClient.id);
+    expect(found).not.toContain(tenant.id);
+    expect(found).toContain(testClient.id);
+    expect(found).toContain(testOrganization.id);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Cached Authentication State
+ * Signs a user in through the UI once, saves the Playwright storage state to
+ * `playwright/.auth/<email>.json` and reuses it for later tests and workers.
+ *
+ * A cached state is only reused while its session cookie has not expired and,
+ * when a database is configured, the matching `session` row still exists and is
+ * not past `expires_at`. Otherwise the user is signed in again and the file rewritten.
+ *
+ * A `slot` keeps several independent sessions of one user, e.g. one per worker, so
+ * server-side session state such as the active organization is not shared between them.
+ */
+
+import { Browser, BrowserContext, Page } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { SignInPage } from '../pages/SignInPage';
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+import testConfig from '../config/test-config';
+
+const log = Logger.for('auth');
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+type StorageCookie = StorageState['cookies'][number];
+
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+export const AUTH_STATE_DIR = path.resolve(process.cwd(), 'playwright/.auth');
+
+// better-auth names its cookie `better-auth.session_token` (prefixed with `__Secure-` over HTTPS)
+const SESSION_COOKIE_SUFFIX = 'session_token';
+
+// Treat sessions about to expire as expired, so they do not lapse mid-test
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+export class AuthState {
+  /**
+   * Storage state file for a user, optionally for one of their session slots
+   */
+  static pathFor(email: string, slot?: string): string {
+    const name = slot ? `${email}.${slot}` : email;
+    return path.join(AUTH_STATE_DIR, `${name.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`);
+  }
+
+  /**
+   * Session slot of a worker, stable across worker restarts
+   */
+  static workerSlot(parallelIndex: number): string {
+    return `worker-${parallelIndex}`;
+  }
+
+  /**
+   * Read a user's cached storage state, or null when none was saved
+   */
+  static read(email: string, slot?: string): StorageState | null {
+    const file = this.pathFor(email, slot);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as StorageState;
+    } catch (error) {
+      log.warning(`Ignoring unreadable auth state: ${file}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the storage state of a signed-in context for a user
+   */
+  static async save(context: BrowserContext, email: string, slot?: string): Promise<string> {
+    const file = this.pathFor(email, slot);
+    fs.mkdirSync(AUTH_STATE_DIR, { recursive: true });
+
+    // Write then rename, so a worker never reads a half-written file
+    const temporary = `${file}.${process.pid}.tmp`;
+    await context.storageState({ path: temporary });
+    fs.renameSync(temporary, file);
+
+    log.debug(`Saved auth state for ${email}${slot ? ` (${slot})` : ''}`);
+    return file;
+  }
+
+  /**
+   * The better-auth session cookie of a storage state
+   */
+  static sessionCookie(state: StorageState): StorageCookie | null {
+    return state.cookies.find((cookie) => cookie.name.endsWith(SESSION_COOKIE_SUFFIX)) || null;
+  }
+
+  /**
+   * Session token stored in the `session` table: the cookie value is `<token>.<signature>`
+   */
+  static sessionToken(cookie: StorageCookie): string {
+    return decodeURIComponent(cookie.value).split('.')[0];
+  }
+
+  /**
+   * Check a cached state can be reused: cookie present and unexpired, and the session
+   * row still valid in the database (skipped when no database URL is configured)
+   */
+  static async isValid(state: StorageState | null): Promise<boolean> {
+    const cookie = state ? this.sessionCookie(state) : null;
+    if (!cookie) {
+      return false;
+    }
+
+    // -1 marks a browser-session cookie, which has no expiry of its own
+    if (cookie.expires !== -1 && cookie.expires * 1000 < Date.now() + EXPIRY_MARGIN_MS) {
+      log.debug('Cached session cookie has expired');
+      return false;
+    }
+
+    if (!testConfig.database.enabled) {
+      return true;
+    }
+
+    try {
+      await DatabaseHelper.connect();
+      const sessions = await DatabaseHelper.query<{ expires_at: Date }>(
+        'SELECT expires_at FROM session WHERE token = $1',
+        [this.sessionToken(cookie)]
+      );
+      if (sessions.length === 0) {
+        log.debug('Cached session no longer exists in the database');
+        return false;
+      }
+      return new Date(sessions[0].expires_at).getTime() > Date.now() + EXPIRY_MARGIN_MS;
+    } catch (error) {
+      log.warning('Could not validate cached session against the database', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sign in through the UI on a page and wait for the dashboard
+   */
+  static async signIn(page: Page, credentials: AuthCredentials): Promise<void> {
+    const signInPage = new SignInPage(page);
+
+    await signInPage.navigateToHome();
+    await page.click('a:has-text("Sign In")');
+    await signInPage.signIn(credentials.email, credentials.password, true);
+    await signInPage.waitForDashboardRedirect(testConfig.timeouts.long);
+  }
+
+  /**
+   * Return the path of a valid storage state for a user, signing in again in a
+   * fresh context when the cached one is missing or expired
+   */
+  static async ensure(
+    browser: Browser,
+    credentials: AuthCredentials,
+    slot?: string
+  ): Promise<string> {
+    if (await this.isValid(this.read(credentials.email, slot))) {
+      log.debug(`Reusing cached auth state for ${credentials.email}`);
+      return this.pathFor(credentials.email, slot);
+    }
+
+    return this.refresh(browser, credentials, slot);
+  }
+
+  /**
+   * Sign in again in a fresh context and overwrite the cached state
+   */
+  static async refresh(
+    browser: Browser,
+    credentials: AuthCredentials,
+    slot?: string
+  ): Promise<string> {
+    log.info(`🔐 Signing in ${credentials.email} to refresh cached auth state`);
+
+    const context = await browser.newContext({
+      baseURL: testConfig.baseUrl,
+      ignoreHTTPSErrors: true,
+    });
+    try {
+      const page = await context.newPage();
+      await this.signIn(page, credentials);
+      return await this.save(context, credentials.email, slot);
+    } finally {
+      await context.close();
+    }
+  }
+}
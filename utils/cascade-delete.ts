@@ -0,0 +1,225 @@
+/**
+ * FK-aware Cascade Delete Engine
+ * Reads the foreign keys of the current schema from pg_constraint, builds a
+ * parent → children dependency graph and deletes a root row together with every row
+ * that depends on it, children first. Replaces hand-ordered cleanup SQL, so a new
+ * table referencing `organization` or `sku` is picked up without touching the tests.
+ * References whose foreign key is ON DELETE SET NULL or SET DEFAULT are cleared instead,
+ * as the database itself would, so the referencing rows survive.
+ *
+ * The engine only issues statements on the client it is given — run it through
+ * DatabaseHelper.cascadeDelete() so everything happens inside one transaction.
+ */
+
+import { PoolClient } from 'pg';
+import { Logger } from './logger';
+
+const log = Logger.for('database');
+
+export interface ForeignKey {
+  constraintName: string;
+  childTable: string;
+  childColumn: string;
+  parentTable: string;
+  parentColumn: string;
+  /** ON DELETE action: CASCADE, SET NULL, SET DEFAULT, RESTRICT or NO ACTION */
+  deleteRule: string;
+}
+
+export interface CascadeReport {
+  table: string;
+  column: string;
+  values: string[];
+  /** Rows deleted per table */
+  deleted: Record<string, number>;
+  /** Rows whose reference was cleared (SET NULL / SET DEFAULT), keyed by `table.column` */
+  nullified: Record<string, number>;
+}
+
+/**
+ * Root rows the suite deletes, with the column identifying them
+ */
+export const CASCADE_ROOTS = {
+  organization: { table: 'organization', column: 'id' },
+  user: { table: 'user', column: 'id' },
+  supplier: { table: 'suppliers', column: 'id' },
+  skuCategory: { table: 'skuCategory', column: 'id' },
+} as const;
+
+export type CascadeRoot = keyof typeof CASCADE_ROOTS;
+
+// Delete rules under which the referencing row is kept and only its reference changes
+const CLEARING_RULES: Record<string, string> = { 'SET NULL': 'NULL', 'SET DEFAULT': 'DEFAULT' };
+
+// Guards against runaway recursion on unexpected cyclic schemas
+const MAX_DEPTH = 25;
+
+export class CascadeDelete {
+  // Parent table → foreign keys pointing at it. Loaded once per worker.
+  private static graph: Map<string, ForeignKey[]> | null = null;
+
+  /**
+   * Load every single-column foreign key between tables of the current schema into the
+   * dependency graph. Read from pg_constraint, which — unlike information_schema — lists
+   * tables the current role does not own and ties each constraint to its own table.
+   */
+  static async loadGraph(client: PoolClient): Promise<Map<string, ForeignKey[]>> {
+    if (this.graph) {
+      return this.graph;
+    }
+
+    const result = await client.query<ForeignKey & { columnCount: number }>(`
+      SELECT
+        c.conname as "constraintName",
+        child.relname as "childTable",
+        child_column.attname as "childColumn",
+        parent.relname as "parentTable",
+        parent_column.attname as "parentColumn",
+        CASE c.confdeltype
+          WHEN 'c' THEN 'CASCADE'
+          WHEN 'n' THEN 'SET NULL'
+          WHEN 'd' THEN 'SET DEFAULT'
+          WHEN 'r' THEN 'RESTRICT'
+          ELSE 'NO ACTION'
+        END as "deleteRule",
+        cardinality(c.conkey) as "columnCount"
+      FROM pg_constraint c
+      JOIN pg_class child ON child.oid = c.conrelid
+      JOIN pg_class parent ON parent.oid = c.confrelid
+      JOIN pg_attribute child_column
+        ON child_column.attrelid = c.conrelid AND child_column.attnum = c.conkey[1]
+      JOIN pg_attribute parent_column
+        ON parent_column.attrelid = c.confrelid AND parent_column.attnum = c.confkey[1]
+      WHERE c.contype = 'f'
+        AND child.relnamespace = current_schema()::regnamespace
+        AND parent.relnamespace = current_schema()::regnamespace
+    `);
+
+    const graph = new Map<string, ForeignKey[]>();
+    for (const { columnCount, ...fk } of result.rows) {
+      // The engine matches one column per reference and cannot follow composite keys
+      if (columnCount > 1) {
+        log.warning(`Cascade delete: skipping composite foreign key ${fk.constraintName}`);
+        continue;
+      }
+      const references = graph.get(fk.parentTable) || [];
+      references.push(fk);
+      graph.set(fk.parentTable, references);
+    }
+
+    log.debug(`Cascade delete: loaded ${result.rows.length} foreign keys`);
+    this.graph = graph;
+    return graph;
+  }
+
+  /**
+   * Foreign keys that point at a table (its direct dependents)
+   */
+  static async dependentsOf(client: PoolClient, table: string): Promise<ForeignKey[]> {
+    const graph = await this.loadGraph(client);
+    return graph.get(table) || [];
+  }
+
+  /**
+   * Delete the rows of `table` whose `column` matches one of `values`, and every
+   * dependent row, children first.
+   */
+  static async run(
+    client: PoolClient,
+    table: string,
+    column: string,
+    values: string[]
+  ): Promise<CascadeReport> {
+    const report: CascadeReport = { table, column, values, deleted: {}, nullified: {} };
+    await this.loadGraph(client);
+    await this.deleteWithDependents(client, table, column, values, report, new Set(), 0);
+    return report;
+  }
+
+  private static async deleteWithDependents(
+    client: PoolClient,
+    table: string,
+    column: string,
+    values: string[],
+    report: CascadeReport,
+    visiting: Set<string>,
+    depth: number
+  ): Promise<void> {
+    if (values.length === 0) {
+      return;
+    }
+    if (depth > MAX_DEPTH) {
+      throw new Error(`Cascade delete exceeded ${MAX_DEPTH} levels at "${table}"`);
+    }
+
+    // Skip a row set that is already being deleted further up (cyclic references)
+    const key = `${table}.${column}:${[...values].sort().join(',')}`;
+    if (visiting.has(key)) {
+      return;
+    }
+    visiting.add(key);
+
+    for (const fk of this.graph!.get(table) || []) {
+      // The children reference `parentColumn`, which is not necessarily the column we matched on
+      const parentValues =
+        fk.parentColumn === column
+          ? values
+          : (
+              await client.query<{ value: string }>(
+                `SELECT DISTINCT "${fk.parentColumn}"::text as value FROM "${table}"
+                 WHERE "${column}"::text = ANY($1::text[]) AND "${fk.parentColumn}" IS NOT NULL`,
+                [values]
+              )
+            ).rows.map((row) => row.value);
+
+      if (parentValues.length === 0) {
+        continue;
+      }
+
+      const reference = `${fk.childTable}.${fk.childColumn}`;
+      const cleared = CLEARING_RULES[fk.deleteRule];
+      if (cleared) {
+        const result = await client.query(
+          `UPDATE "${fk.childTable}" SET "${fk.childColumn}" = ${cleared}
+           WHERE "${fk.childColumn}"::text = ANY($1::text[])`,
+          [parentValues]
+        );
+        if (result.rowCount) {
+          report.nullified[reference] = (report.nullified[reference] || 0) + result.rowCount;
+        }
+        continue;
+      }
+
+      await this.deleteWithDependents(
+        client,
+        fk.childTable,
+        fk.childColumn,
+        parentValues,
+        report,
+        visiting,
+        depth + 1
+      );
+    }
+
+    const result = await client.query(
+      `DELETE FROM "${table}" WHERE "${column}"::text = ANY($1::text[])`,
+      [values]
+    );
+    if (result.rowCount) {
+      report.deleted[table] = (report.deleted[table] || 0) + result.rowCount;
+    }
+
+    visiting.delete(key);
+  }
+
+  /**
+   * One-line summary of a report for logging, e.g. "organization: 1, member: 2, client: 3"
+   */
+  static summarize(report: CascadeReport): string {
+    const parts = Object.entries(report.deleted).map(([table, count]) => `${table}: ${count}`);
+    const nullified = Object.entries(report.nullified).map(
+      ([reference, count]) => `${reference} nulled: ${count}`
+    );
+    return [...parts, ...nullified].join(', ') || 'nothing';
+  }
+}
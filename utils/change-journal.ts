@@ -0,0 +1,281 @@
+/**
+ * Change Journal for Test Isolation
+ * Installs AFTER INSERT triggers on the business tables that record every new row
+ * in a journal table, so a test can revert exactly what was inserted while it ran —
+ * even when it failed before reaching its own DELETE step.
+ *
+ * The journal cannot tell which test caused an insert (the app writes through its own
+ * connections), so a revert is scoped to one organization: it undoes the rows inserted since
+ * the mark that belong to the worker's own organization — directly, or through the parent row
+ * of a junction, rate or property row — and leaves what other workers inserted alone.
+ * Rows are deleted with their dependents, so children the journal did not see cannot block
+ * the revert. Entries whose organization cannot be told are dropped and reported.
+ */
+
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+import { repositories } from './repositories';
+
+const log = Logger.for('database');
+
+const JOURNAL_TABLE = 'test_change_journal';
+const CAPTURE_FUNCTION = 'test_change_journal_capture';
+const TRIGGER_NAME = 'test_change_journal_insert';
+
+// Arbitrary key so concurrent workers do not install triggers at the same time
+const INSTALL_LOCK_KEY = 73_420_001;
+
+/**
+ * Tables watched by the journal: every repository table plus the junction tables
+ * the create dialogs write to.
+ */
+export const JOURNALED_TABLES: string[] = [
+  ...Object.values(repositories).map((repository) => repository.table),
+  'suppliers_to_supplier_groups',
+  'skuCategory_vs_Suppliers',
+];
+
+// Columns holding a row's organization, in the naming styles the schema mixes
+const ORGANIZATION_COLUMNS = ['organizationId', 'organization_id'];
+
+/**
+ * Tables without an organization column, with the reference to the parent row that has one
+ */
+const PARENT_REFERENCES: Record<string, { column: string; table: string }> = {
+  skuRate: { column: 'skuId', table: 'sku' },
+  skuProperties: { column: 'skuId', table: 'sku' },
+  skuCategory_vs_Suppliers: { column: 'skuCategoryId', table: 'skuCategory' },
+  suppliers_to_supplier_groups: { column: 'supplier_id', table: 'suppliers' },
+};
+
+interface JournalEntry {
+  id: string;
+  table_name: string;
+  row_data: Record<string, unknown>;
+}
+
+export interface RevertResult {
+  reverted: number;
+  failed: number;
+  /** Rows still present whose organization could not be told, left in place */
+  unresolved: number;
+  byTable: Record<string, number>;
+}
+
+export class ChangeJournal {
+  private static installed = false;
+
+  /**
+   * Create the journal table, capture function and one trigger per watched table.
+   * Safe to call from every worker — installation is serialised with an advisory lock.
+   */
+  static async install(tables: string[] = JOURNALED_TABLES): Promise<void> {
+    if (this.installed) {
+      return;
+    }
+
+    await DatabaseHelper.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock($1)', [INSTALL_LOCK_KEY]);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${JOURNAL_TABLE} (
+          id bigserial PRIMARY KEY,
+          table_name text NOT NULL,
+          row_data jsonb NOT NULL,
+          recorded_at timestamptz NOT NULL DEFAULT now()
+        )
+      `);
+
+      await client.query(`
+        CREATE OR REPLACE FUNCTION ${CAPTURE_FUNCTION}() RETURNS trigger AS $$
+        BEGIN
+          INSERT INTO ${JOURNAL_TABLE} (table_name, row_data) VALUES (TG_TABLE_NAME, to_jsonb(NEW));
+          RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+
+      for (const table of tables) {
+        const exists = await client.query<{ oid: string | null }>('SELECT to_regclass($1) as oid', [
+          `"${table}"`,
+        ]);
+        if (!exists.rows[0]?.oid) {
+          log.warning(`Change journal: table "${table}" does not exist — not watched`);
+          continue;
+        }
+
+        await client.query(`DROP TRIGGER IF EXISTS ${TRIGGER_NAME} ON "${table}"`);
+        await client.query(
+          `CREATE TRIGGER ${TRIGGER_NAME} AFTER INSERT ON "${table}"
+           FOR EACH ROW EXECUTE FUNCTION ${CAPTURE_FUNCTION}()`
+        );
+      }
+    });
+
+    this.installed = true;
+    log.debug(`Change journal installed on ${tables.length} tables`);
+  }
+
+  /**
+   * Current journal position. Everything recorded after it belongs to the running test.
+   */
+  static async mark(): Promise<number> {
+    const result = await DatabaseHelper.query<{ position: string }>(
+      `SELECT COALESCE(MAX(id), 0) as position FROM ${JOURNAL_TABLE}`
+    );
+    return parseInt(result[0]?.position || '0', 10);
+  }
+
+  /**
+   * Delete every row of the organization inserted since the mark, with its dependents,
+   * newest first so children go before parents, then drop those journal entries. Entries of
+   * other organizations stay for the workers that own them; entries of no known organization
+   * are dropped too, and reported when their row is still there.
+   */
+  static async revert(since: number, organizationId: string): Promise<RevertResult> {
+    const entries = await DatabaseHelper.query<JournalEntry>(
+      `SELECT id, table_name, row_data FROM ${JOURNAL_TABLE} WHERE id > $1 ORDER BY id DESC`,
+      [since]
+    );
+
+    const result: RevertResult = { reverted: 0, failed: 0, unresolved: 0, byTable: {} };
+    const handled: string[] = [];
+
+    for (const entry of entries) {
+      // Parents are still there: their children were inserted later and are reverted first
+      const owner = await this.organizationOf(entry.table_name, entry.row_data);
+      if (owner === null) {
+        handled.push(entry.id);
+        if (await this.rowExists(entry)) {
+          result.unresolved++;
+          log.warning(
+            `Change journal: organization of a row in ${entry.table_name} is unknown — not reverted`,
+            entry.row_data
+          );
+        }
+        continue;
+      }
+      if (owner !== organizationId) {
+        continue;
+      }
+      handled.push(entry.id);
+
+      try {
+        const deleted = await this.deleteRow(entry);
+        for (const [table, count] of Object.entries(deleted)) {
+          result.reverted += count;
+          result.byTable[table] = (result.byTable[table] || 0) + count;
+        }
+      } catch (error) {
+        result.failed++;
+        log.warning(`Change journal: could not revert row in ${entry.table_name}`, error);
+      }
+    }
+
+    await DatabaseHelper.query(`DELETE FROM ${JOURNAL_TABLE} WHERE id = ANY($1::bigint[])`, [
+      handled,
+    ]);
+
+    if (result.reverted > 0) {
+      log.info(`Change journal reverted ${result.reverted} row(s)`, result.byTable);
+    }
+    return result;
+  }
+
+  /**
+   * Whether the journal table exists, i.e. some run installed the journal
+   */
+  static async isInstalled(): Promise<boolean> {
+    const result = await DatabaseHelper.query<{ oid: string | null }>(
+      'SELECT to_regclass($1) as oid',
+      [JOURNAL_TABLE]
+    );
+    return Boolean(result[0]?.oid);
+  }
+
+  /**
+   * Remove the triggers, capture function and journal table
+   */
+  static async uninstall(tables: string[] = JOURNALED_TABLES): Promise<void> {
+    await DatabaseHelper.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock($1)', [INSTALL_LOCK_KEY]);
+
+      for (const table of tables) {
+        const exists = await client.query<{ oid: string | null }>('SELECT to_regclass($1) as oid', [
+          `"${table}"`,
+        ]);
+        if (exists.rows[0]?.oid) {
+          await client.query(`DROP TRIGGER IF EXISTS ${TRIGGER_NAME} ON "${table}"`);
+        }
+      }
+
+      await client.query(`DROP FUNCTION IF EXISTS ${CAPTURE_FUNCTION}()`);
+      await client.query(`DROP TABLE IF EXISTS ${JOURNAL_TABLE}`);
+    });
+
+    this.installed = false;
+    log.debug('Change journal uninstalled');
+  }
+
+  /**
+   * Delete a journaled row. Rows with an id go with everything referencing them; junction
+   * rows, which nothing references, are matched on their full contents.
+   * @returns Rows deleted per table
+   */
+  private static async deleteRow(entry: JournalEntry): Promise<Record<string, number>> {
+    const rowId = entry.row_data.id;
+    if (rowId !== undefined && rowId !== null) {
+      const report = await DatabaseHelper.cascadeDelete(entry.table_name, 'id', String(rowId));
+      return report.deleted;
+    }
+
+    const deleted = await DatabaseHelper.query(
+      `DELETE FROM "${entry.table_name}" t WHERE to_jsonb(t) = $1::jsonb RETURNING 1`,
+      [JSON.stringify(entry.row_data)]
+    );
+    return deleted.length > 0 ? { [entry.table_name]: deleted.length } : {};
+  }
+
+  /**
+   * Whether a journaled row is still in its table
+   */
+  private static async rowExists(entry: JournalEntry): Promise<boolean> {
+    const rowId = entry.row_data.id;
+    const found =
+      rowId !== undefined && rowId !== null
+        ? await DatabaseHelper.query(
+            `SELECT 1 FROM "${entry.table_name}" WHERE id::text = $1 LIMIT 1`,
+            [String(rowId)]
+          )
+        : await DatabaseHelper.query(
+            `SELECT 1 FROM "${entry.table_name}" t WHERE to_jsonb(t) = $1::jsonb LIMIT 1`,
+            [JSON.stringify(entry.row_data)]
+          );
+    return found.length > 0;
+  }
+
+  /**
+   * Organization a journaled row belongs to: its own organization column, or that of the
+   * parent row it references. Null when it cannot be told.
+   */
+  private static async organizationOf(
+    table: string,
+    row: Record<string, unknown>
+  ): Promise<string | null> {
+    for (const column of ORGANIZATION_COLUMNS) {
+      if (row[column] !== undefined && row[column] !== null) {
+        return String(row[column]);
+      }
+    }
+
+    const parent = PARENT_REFERENCES[table];
+    if (!parent || row[parent.column] === undefined || row[parent.column] === null) {
+      return null;
+    }
+    const [found] = await DatabaseHelper.query<{ row_data: Record<string, unknown> }>(
+      `SELECT to_jsonb(p) as row_data FROM "${parent.table}" p WHERE p.id::text = $1`,
+      [String(row[parent.column])]
+    );
+    return found ? this.organizationOf(parent.table, found.row_data) : null;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Entity Factories
+ * Insert valid business rows straight into the database so a spec can arrange its own
+ * preconditions instead of relying on whatever data the environment happens to hold.
+ * Missing parents are created on the way (a SKU gets a category, which gets a supplier
+ * group), every row is registered with the test's cleanup, and the stored row is returned.
+ */
+
+import { randomUUID } from 'crypto';
+import { DatabaseHelper, Organization } from './database-helper';
+import { generators } from './entity-generators';
+import { Logger } from './logger';
+import {
+  ClientRow,
+  repositories,
+  SkuCategoryRow,
+  SkuClassificationRow,
+  SkuPropertyRow,
+  SkuRateRow,
+  SkuRow,
+  SupplierGroupRow,
+  SupplierRow,
+} from './repositories';
+import { CleanupEntityType, TestCleanup } from './test-cleanup';
+import { OrganizationData, TestDataGenerator } from './test-data-generator';
+import { assertDestructiveAllowed } from '../config/environments';
+
+const log = Logger.for('database');
+
+/**
+ * Organization to insert; `ownerUserId` also makes that user its owner
+ */
+export interface OrganizationOverrides extends Partial<OrganizationData> {
+  ownerUserId?: string;
+}
+
+/**
+ * Creates entities in one organization and registers each of them with the test's cleanup.
+ * Exposed to specs through the `factory` fixture, bound to the worker's organization.
+ *
+ * Parents are created unless their ID is passed; pass `null` for an optional parent to leave
+ * it out.
+ *
+ * @example
+ * const category = await factory.skuCategory();                // with a new supplier group
+ * const sku = await factory.sku({ skuCategoryId: category.id });
+ * await factory.skuRate({ skuId: sku.id, rate: '12.50' });     // with a new supplier
+ */
+export class EntityFactory {
+  /**
+   * @param cleanup - The test's cleanup tracker
+   * @param organizationId - Organization the business entities are created in
+   */
+  constructor(
+    private readonly cleanup: TestCleanup,
+    readonly organizationId: string
+  ) {}
+
+  /**
+   * Insert an organization with a `test-org-*` slug
+   */
+  async organization({
+    ownerUserId,
+    ...overrides
+  }: OrganizationOverrides = {}): Promise<Organization> {
+    this.assertAllowed('organization');
+    const data = { ...TestDataGenerator.generateOrganization(), ...overrides };
+
+    const [organization] = await DatabaseHelper.query<Organization>(
+      `INSERT INTO organization (id, name, slug, created_at) VALUES ($1, $2, $3, now())
+       RETURNING id, name, slug, logo, created_at as "createdAt", metadata`,
+      [randomUUID(), data.name, data.slug]
+    );
+    this.cleanup.registerOrganization(organization.slug);
+
+    if (ownerUserId) {
+      await DatabaseHelper.query(
+        'INSERT INTO member (id, organization_id, user_id, role, created_at) VALUES ($1, $2, $3, $4, now())',
+        [randomUUID(), organization.id, ownerUserId, 'owner']
+      );
+    }
+
+    log.info(`Seeded organization "${organization.slug}"`);
+    return organization;
+  }
+
+  async client(overrides: Partial<ClientRow> = {}): Promise<ClientRow> {
+    this.assertAllowed('client');
+    const client = await repositories.clients.insert({
+      displayName: generators.client.valid().displayName,
+      organizationId: this.organizationId,
+      ...overrides,
+    });
+    return this.registered('client', client);
+  }
+
+  async supplierGroup(overrides: Partial<SupplierGroupRow> = {}): Promise<SupplierGroupRow> {
+    this.assertAllowed('supplier group');
+    const group = await repositories.supplierGroups.insert({
+      displayName: generators.supplierGroup.valid().displayName,
+      organizationId: this.organizationId,
+      ...overrides,
+    });
+    return this.registered('supplierGroup', group);
+  }
+
+  async supplier(overrides: Partial<SupplierRow> = {}): Promise<SupplierRow> {
+    this.assertAllowed('supplier');
+    const supplier = await repositories.suppliers.insert({
+      displayName: generators.supplier.valid().displayName,
+      organizationId: this.organizationId,
+      ...overrides,
+    });
+    return this.registered('supplier', supplier);
+  }
+
+  /**
+   * Insert a SKU category, in a new supplier group unless `supplierGroupId` is given
+   */
+  async skuCategory(overrides: Partial<SkuCategoryRow> = {}): Promise<SkuCategoryRow> {
+    this.assertAllowed('SKU category');
+    const supplierGroupId =
+      overrides.supplierGroupId === undefined
+        ? (await this.supplierGroup()).id
+        : overrides.supplierGroupId;
+
+    const category = await repositories.skuCategories.insert({
+      displayName: generators.skuCategory.valid().displayName,
+      organizationId: this.organizationId,
+      ifRateNotFoundUse: null,
+      ...overrides,
+      supplierGroupId,
+    });
+    return this.registered('skuCategory', category);
+  }
+
+  async skuClassification(
+    overrides: Partial<SkuClassificationRow> = {}
+  ): Promise<SkuClassificationRow> {
+    this.assertAllowed('SKU classification');
+    const classification = await repositories.skuClassifications.insert({
+      displayName: generators.skuClassification.valid().displayName,
+      organizationId: this.organizationId,
+      ...overrides,
+    });
+    return this.registered('skuClassification', classification);
+  }
+
+  /**
+   * Insert a SKU measured in m3, in a new category and classification unless given
+   */
+  async sku(overrides: Partial<SkuRow> = {}): Promise<SkuRow> {
+    this.assertAllowed('SKU');
+    const skuCategoryId = overrides.skuCategoryId ?? (await this.skuCategory()).id;
+    const skuClassificationId =
+      overrides.skuClassificationId === undefined
+        ? (await this.skuClassification()).id
+        : overrides.skuClassificationId;
+
+    const sku = await repositories.skus.insert({
+      displayName: generators.sku.valid().displayName,
+      organizationId: this.organizationId,
+      unitId: 'm3',
+      ...overrides,
+      skuCategoryId,
+      skuClassificationId,
+    });
+    return this.registered('sku', sku);
+  }
+
+  /**
+   * Insert a SKU property — a weight conversion factor of 1 kg by default — on a new SKU
+   * unless `skuId` is given. Properties are not registered: they go with their SKU.
+   */
+  async skuProperty(overrides: Partial<SkuPropertyRow> = {}): Promise<SkuPropertyRow> {
+    this.assertAllowed('SKU property');
+    const skuId = overrides.skuId ?? (await this.sku()).id;
+
+    const property = await repositories.skuProperties.insert({
+      propertyType: 'weightConversionFactor',
+      value: '1',
+      unitId: 'kg',
+      ...overrides,
+      skuId,
+    });
+    log.info(`Seeded skuProperty ${property.propertyType} on SKU ${skuId}`);
+    return property;
+  }
+
+  /**
+   * Insert the rate of a SKU for a supplier, creating either when its ID is not given
+   */
+  async skuRate(overrides: Partial<SkuRateRow> = {}): Promise<SkuRateRow> {
+    this.assertAllowed('SKU rate');
+    const skuId = overrides.skuId ?? (await this.sku()).id;
+    const supplierId = overrides.supplierId ?? (await this.supplier()).id;
+
+    const rate = await repositories.skuRates.insert({
+      rate: generators.skuRate.valid().rate,
+      previousRate: null,
+      rateLastUpdatedAt: new Date(),
+      ...overrides,
+      skuId,
+      supplierId,
+    });
+    return this.registered('skuRate', rate);
+  }
+
+  private registered<T extends { id: string }>(
+    entityType: Exclude<CleanupEntityType, 'user' | 'organization'>,
+    row: T & { displayName?: string }
+  ): T {
+    this.cleanup.register(entityType, row.id);
+    log.info(`Seeded ${entityType} ${row.displayName ? `"${row.displayName}"` : row.id}`);
+    return row;
+  }
+
+  private assertAllowed(entity: string): void {
+    assertDestructiveAllowed('createData', `seed a ${entity}`);
+  }
+}
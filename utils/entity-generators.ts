@@ -0,0 +1,241 @@
+/**
+ * Entity Data Generators
+ * Form data for every business entity the dashboard creates, drawn from TestDataGenerator's
+ * seeded faker so it is reproducible with TEST_SEED. Each generator offers:
+ * - `valid()`      realistic data the form accepts, with optional overrides
+ * - `minimal()`    every field at its lower boundary, optional fields left out
+ * - `maximal()`    every field at its upper boundary, optional fields filled in
+ * - `invalid(f)`   valid data except for field `f`, which the form must reject
+ *
+ * Names always keep the `Test <Entity> <token>` form, so even boundary variants are unique
+ * and recognisable as test data; the empty name is covered by `invalid('displayName')`.
+ */
+
+import { TestDataGenerator } from './test-data-generator';
+
+/**
+ * Field limits the boundary variants are built from. They are this suite's assumptions, not
+ * read from the app: the boundary specs fail when the app's validation disagrees.
+ */
+export const FIELD_LIMITS = {
+  displayName: { max: 255 },
+  gpsLatitude: { min: -90, max: 90 },
+  gpsLongitude: { min: -180, max: 180 },
+  weightFactor: { min: 0.01, max: 1000 },
+  rate: { min: 0.01, max: 999999.99 },
+} as const;
+
+/** Options of the SKU category "If rate not found use" select */
+export const IF_RATE_NOT_FOUND_OPTIONS = ['Minimum', 'Average', 'Maximum'] as const;
+export type IfRateNotFoundUse = (typeof IF_RATE_NOT_FOUND_OPTIONS)[number];
+
+/** Units a SKU can be measured in, by the value of their option */
+export const SKU_UNITS = ['units', 'kg', 't', 'm3'] as const;
+/** Units a weight conversion factor can be expressed in */
+export const WEIGHT_UNITS = ['kg', 't'] as const;
+
+export interface ClientData {
+  displayName: string;
+}
+
+export interface SupplierGroupData {
+  displayName: string;
+}
+
+export interface SupplierData {
+  displayName: string;
+  /** Decimal degrees, as typed into the form */
+  gpsLatitude: string;
+  gpsLongitude: string;
+}
+
+export interface SkuCategoryData {
+  displayName: string;
+  ifRateNotFoundUse: IfRateNotFoundUse;
+}
+
+export interface SkuClassificationData {
+  displayName: string;
+}
+
+export interface SkuData {
+  displayName: string;
+  unitId: string;
+  canConvertToWeight: boolean;
+  /** Weight of one unit, set when canConvertToWeight is true */
+  weightFactor?: number;
+  weightUnitId?: string;
+}
+
+export interface SkuRateData {
+  /** Decimal string, as stored in skuRate.rate */
+  rate: string;
+}
+
+/**
+ * Valid, boundary and invalid variants of one entity's data
+ * @typeParam F - Fields that have an invalid variant
+ */
+export interface EntityGenerator<T, F extends keyof T = keyof T> {
+  valid(overrides?: Partial<T>): T;
+  minimal(): T;
+  maximal(): T;
+  invalid(field: F): T;
+}
+
+/**
+ * Build a generator from its variants and one rejected value per field. A field the form
+ * only checks in some states names the overrides that put valid data in that state under
+ * `invalidWhen`, e.g. a weight factor is only checked when the SKU converts to weight.
+ */
+function defineGenerator<T, F extends keyof T>(variants: {
+  valid: (overrides: Partial<T>) => T;
+  minimal: () => T;
+  maximal: () => T;
+  invalidValues: { [K in F]: () => T[K] };
+  invalidWhen?: { [K in F]?: Partial<T> };
+}): EntityGenerator<T, F> {
+  return {
+    valid: (overrides = {}) => variants.valid(overrides),
+    minimal: variants.minimal,
+    maximal: variants.maximal,
+    invalid: (field) => ({
+      ...variants.valid(variants.invalidWhen?.[field] ?? {}),
+      [field]: variants.invalidValues[field](),
+    }),
+  };
+}
+
+const faker = () => TestDataGenerator.faker;
+
+const isWeightUnit = (unit: string) => (WEIGHT_UNITS as readonly string[]).includes(unit);
+
+/**
+ * A unique name padded with letters to the longest length the form accepts
+ */
+function longestName(label: string): string {
+  const name = `${TestDataGenerator.generateEntityName(label)} `;
+  return name + faker().string.alpha({ length: FIELD_LIMITS.displayName.max - name.length });
+}
+
+/**
+ * A decimal between the bounds, rounded to the given number of places
+ */
+function decimal(min: number, max: number, places: number): number {
+  return faker().number.float({ min, max, fractionDigits: places });
+}
+
+const namedEntity = <T extends { displayName: string }>(label: string) =>
+  defineGenerator<T, 'displayName'>({
+    valid: (overrides) =>
+      ({ displayName: TestDataGenerator.generateEntityName(label), ...overrides }) as T,
+    minimal: () => ({ displayName: TestDataGenerator.generateEntityName(label) }) as T,
+    maximal: () => ({ displayName: longestName(label) }) as T,
+    invalidValues: { displayName: () => '' as T['displayName'] },
+  });
+
+const supplier = defineGenerator<SupplierData, 'displayName' | 'gpsLatitude' | 'gpsLongitude'>({
+  valid: (overrides) => ({
+    displayName: TestDataGenerator.generateEntityName('Supplier'),
+    gpsLatitude: String(faker().location.latitude({ precision: 4 })),
+    gpsLongitude: String(faker().location.longitude({ precision: 4 })),
+    ...overrides,
+  }),
+  minimal: () => ({
+    displayName: TestDataGenerator.generateEntityName('Supplier'),
+    gpsLatitude: String(FIELD_LIMITS.gpsLatitude.min),
+    gpsLongitude: String(FIELD_LIMITS.gpsLongitude.min),
+  }),
+  maximal: () => ({
+    displayName: longestName('Supplier'),
+    gpsLatitude: String(FIELD_LIMITS.gpsLatitude.max),
+    gpsLongitude: String(FIELD_LIMITS.gpsLongitude.max),
+  }),
+  invalidValues: {
+    displayName: () => '',
+    gpsLatitude: () => String(FIELD_LIMITS.gpsLatitude.max + 1),
+    gpsLongitude: () => String(FIELD_LIMITS.gpsLongitude.max + 1),
+  },
+});
+
+const skuCategory = defineGenerator<SkuCategoryData, 'displayName'>({
+  valid: (overrides) => ({
+    displayName: TestDataGenerator.generateEntityName('SKU Cat'),
+    ifRateNotFoundUse: faker().helpers.arrayElement(IF_RATE_NOT_FOUND_OPTIONS),
+    ...overrides,
+  }),
+  minimal: () => ({
+    displayName: TestDataGenerator.generateEntityName('SKU Cat'),
+    ifRateNotFoundUse: 'Minimum',
+  }),
+  maximal: () => ({ displayName: longestName('SKU Cat'), ifRateNotFoundUse: 'Maximum' }),
+  invalidValues: { displayName: () => '' },
+});
+
+const sku = defineGenerator<SkuData, 'displayName' | 'unitId' | 'weightFactor'>({
+  valid: (overrides) => {
+    const canConvertToWeight = overrides.canConvertToWeight ?? false;
+    const data: SkuData = {
+      displayName: TestDataGenerator.generateEntityName('SKU'),
+      // Only a SKU not already measured by weight is converted to one
+      unitId: faker().helpers.arrayElement(
+        canConvertToWeight ? SKU_UNITS.filter((unit) => !isWeightUnit(unit)) : SKU_UNITS
+      ),
+      canConvertToWeight,
+      ...overrides,
+    };
+    // Converting to weight needs a factor and its unit
+    if (data.canConvertToWeight) {
+      data.weightFactor ??= decimal(0.5, 5.5, 2);
+      data.weightUnitId ??= faker().helpers.arrayElement(WEIGHT_UNITS);
+    }
+    return data;
+  },
+  minimal: () => ({
+    displayName: TestDataGenerator.generateEntityName('SKU'),
+    unitId: SKU_UNITS[0],
+    canConvertToWeight: false,
+  }),
+  maximal: () => ({
+    displayName: longestName('SKU'),
+    unitId: SKU_UNITS[0],
+    canConvertToWeight: true,
+    weightFactor: FIELD_LIMITS.weightFactor.max,
+    weightUnitId: WEIGHT_UNITS[WEIGHT_UNITS.length - 1],
+  }),
+  invalidValues: {
+    displayName: () => '',
+    unitId: () => '',
+    weightFactor: () => 0,
+  },
+  // The factor is only asked for, and checked, when the SKU converts to weight
+  invalidWhen: { weightFactor: { canConvertToWeight: true } },
+});
+
+const skuRate = defineGenerator<SkuRateData, 'rate'>({
+  valid: (overrides) => ({ rate: decimal(1, 500, 2).toFixed(2), ...overrides }),
+  minimal: () => ({ rate: FIELD_LIMITS.rate.min.toFixed(2) }),
+  maximal: () => ({ rate: FIELD_LIMITS.rate.max.toFixed(2) }),
+  invalidValues: { rate: () => '-1.00' },
+});
+
+/**
+ * One generator per entity
+ *
+ * @example
+ * const supplier = generators.supplier.valid();
+ * await suppliersPage.createSupplier(supplier.displayName, supplier.gpsLatitude, supplier.gpsLongitude);
+ *
+ * const { displayName } = generators.client.invalid('displayName'); // ''
+ */
+export const generators = {
+  client: namedEntity<ClientData>('Client'),
+  supplierGroup: namedEntity<SupplierGroupData>('Supplier Group'),
+  supplier,
+  skuCategory,
+  skuClassification: namedEntity<SkuClassificationData>('SKU Classification'),
+  sku,
+  skuRate,
+};
+
+export type Generators = typeof generators;
@@ -0,0 +1,56 @@
+/**
+ * Log Sinks
+ * Destinations for the structured entries produced by Logger:
+ * - BufferLogSink keeps one test's entries so the fixture can attach them to its result
+ * - NdjsonFileLogSink appends every entry as one JSON line, for querying after the run
+ *   (e.g. `jq 'select(.level == "error")' test-results/logs.ndjson`)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { LogEntry, LogSink } from './logger';
+
+/**
+ * One entry as a single JSON line. Values JSON cannot represent (circular data,
+ * BigInt) are replaced so a bad payload never loses the entry.
+ */
+export function toJsonLine(entry: LogEntry): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    return JSON.stringify({ ...entry, data: '[unserializable]' });
+  }
+}
+
+export class BufferLogSink implements LogSink {
+  readonly entries: LogEntry[] = [];
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * The buffered entries as NDJSON
+   */
+  toNdjson(): string {
+    return this.entries.map(toJsonLine).join('\n') + '\n';
+  }
+}
+
+export class NdjsonFileLogSink implements LogSink {
+  private readonly file: string;
+
+  /**
+   * @param file - NDJSON file to append to; created with its directory when missing
+   */
+  constructor(file: string) {
+    this.file = path.resolve(process.cwd(), file);
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  write(entry: LogEntry): void {
+    // One appendFileSync per line: appends are atomic for lines this size, so
+    // parallel workers writing the same file never interleave within a line
+    fs.appendFileSync(this.file, toJsonLine(entry) + '\n');
+  }
+}
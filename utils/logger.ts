@@ -2,20 +2,177 @@
  * Test Logger Utility
  * Provides consistent, formatted logging throughout test execution
  *
+ * Every call also produces a structured LogEntry (level, timestamp, worker, test id, step,
+ * data) that is handed to the registered sinks — the per-test buffer attached to the
+ * Playwright result, and the NDJSON file set with LOG_NDJSON_FILE.
+ *
+ * Levels, lowest first: trace, debug, info, warn, error. LOG_LEVEL sets the minimum level
+ * (default info, or debug when DEBUG=true) and LOG_LEVELS overrides it per module, e.g.
+ * `LOG_LEVELS=database=debug,pages=warn`. Helpers log through `Logger.for('<module>')`;
+ * specs use Logger directly (module `test`).
+ *
+ * Messages and data are redacted (passwords, connection strings, session tokens, emails)
+ * before they are written anywhere — see log-redaction.ts.
+ *
  * Usage:
  *   Logger.info('Starting test');
- *   Logger.step(1, 'Fill form');
  *   Logger.success('Test passed');
  *   Logger.error('Test failed', error);
+ *
+ *   const log = Logger.for('database');
+ *   log.debug('Running query', { sql });
  */
 
-export class Logger {
+import { redact, redactText } from './log-redaction';
+import { NdjsonFileLogSink } from './log-sinks';
+
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * What was logged: the Logger method that produced the entry
+ */
+export type LogEvent =
+  | 'trace'
+  | 'debug'
+  | 'info'
+  | 'success'
+  | 'warning'
+  | 'error'
+  | 'step'
+  | 'stepEnd'
+  | 'testStart'
+  | 'testEnd';
+
+/**
+ * Where a log call came from; set by the fixtures for the running test
+ */
+export interface LogContext {
+  /** Parallel index of the worker */
+  worker?: number;
+  /** Playwright test id */
+  testId?: string;
+  /** Title of the running test */
+  test?: string;
+  /** Number of the running step, e.g. 2 or "2.1" for a nested step */
+  step?: number | string;
+}
+
+export interface LogEntry extends LogContext {
+  timestamp: string;
+  level: LogLevel;
+  event: LogEvent;
+  /** Logger.for() module, `test` for Logger itself */
+  module: string;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * Receives every log entry, e.g. to buffer or persist it
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+const DEFAULT_MODULE = 'test';
+
+const EVENT_LEVELS: Record<LogEvent, LogLevel> = {
+  trace: 'trace',
+  debug: 'debug',
+  info: 'info',
+  success: 'info',
+  warning: 'warn',
+  error: 'error',
+  step: 'info',
+  stepEnd: 'info',
+  testStart: 'info',
+  testEnd: 'info',
+};
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse LOG_LEVELS (`module=level,module=level`). Entries that do not parse are returned
+ * in `invalid` and otherwise ignored.
+ */
+export function parseModuleLevels(value: string | undefined): {
+  levels: Record<string, LogLevel>;
+  invalid: string[];
+} {
+  const levels: Record<string, LogLevel> = {};
+  const invalid: string[] = [];
+
+  for (const part of (value ?? '').split(',')) {
+    const entry = part.trim();
+    if (!entry) continue;
+    const [module, level] = entry.split('=').map((piece) => piece.trim().toLowerCase());
+    if (module && level && isLogLevel(level)) {
+      levels[module] = level;
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { levels, invalid };
+}
+
+let sinks: LogSink[] = process.env.LOG_NDJSON_FILE
+  ? [new NdjsonFileLogSink(process.env.LOG_NDJSON_FILE)]
+  : [];
+let context: LogContext = {};
+// Whether info-level console output goes to stderr too, see Logger.useStderr
+let stderrOnly = false;
+
+// Parsed level configuration, re-read when the variables change (.env loads after import)
+let levelConfig: { key: string; defaultLevel: LogLevel; modules: Record<string, LogLevel> };
+
+function thresholdFor(module: string): LogLevel {
+  const { LOG_LEVEL, LOG_LEVELS: moduleLevels, DEBUG } = process.env;
+  const key = `${LOG_LEVEL}|${moduleLevels}|${DEBUG}`;
+  if (levelConfig?.key !== key) {
+    const level = LOG_LEVEL?.trim().toLowerCase() ?? '';
+    levelConfig = {
+      key,
+      defaultLevel: isLogLevel(level) ? level : DEBUG === 'true' ? 'debug' : 'info',
+      modules: parseModuleLevels(moduleLevels).levels,
+    };
+  }
+  return levelConfig.modules[module] ?? levelConfig.defaultLevel;
+}
+
+/**
+ * Logger for one module; every entry is tagged with the module and filtered by its level
+ */
+export class ModuleLogger {
+  constructor(readonly module: string) {}
+
   /**
-   * Get ISO timestamp for log entries
-   * @returns ISO formatted timestamp string
+   * Whether entries of `level` are currently written for this module
+   */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(thresholdFor(this.module));
+  }
+
+  /**
+   * Log very detailed tracing information
+   * @param message - Trace message
+   * @param data - Optional trace data
+   */
+  trace(message: string, data?: unknown): void {
+    this.write('trace', message, `🔬 TRACE: ${message}`, data);
+  }
+
+  /**
+   * Log debug information (hidden at the default info level)
+   * @param message - Debug message
+   * @param data - Optional debug data
    */
-  private static getTimestamp(): string {
-    return new Date().toISOString();
+  debug(message: string, data?: unknown): void {
+    this.write('debug', message, `🐛 DEBUG: ${message}`, data);
   }
 
   /**
@@ -23,9 +180,8 @@ export class Logger {
    * @param message - The message to log
    * @param data - Optional data object to stringify and display
    */
-  static info(message: string, data?: unknown): void {
-    console.log(`[${this.getTimestamp()}] ℹ️  INFO: ${message}`);
-    if (data) console.log(JSON.stringify(data, null, 2));
+  info(message: string, data?: unknown): void {
+    this.write('info', message, `ℹ️  INFO: ${message}`, data);
   }
 
   /**
@@ -33,9 +189,8 @@ export class Logger {
    * @param message - The success message to log
    * @param data - Optional data object to stringify and display
    */
-  static success(message: string, data?: unknown): void {
-    console.log(`[${this.getTimestamp()}] ✅ SUCCESS: ${message}`);
-    if (data) console.log(JSON.stringify(data, null, 2));
+  success(message: string, data?: unknown): void {
+    this.write('success', message, `✅ SUCCESS: ${message}`, data);
   }
 
   /**
@@ -43,9 +198,8 @@ export class Logger {
    * @param message - The warning message to log
    * @param data - Optional data object to stringify and display
    */
-  static warning(message: string, data?: unknown): void {
-    console.warn(`[${this.getTimestamp()}] ⚠️  WARNING: ${message}`);
-    if (data) console.warn(JSON.stringify(data, null, 2));
+  warning(message: string, data?: unknown): void {
+    this.write('warning', message, `⚠️  WARNING: ${message}`, data);
   }
 
   /**
@@ -53,35 +207,50 @@ export class Logger {
    * @param message - The error message to log
    * @param error - Optional error object or additional context
    */
-  static error(message: string, error?: unknown): void {
-    console.error(`[${this.getTimestamp()}] ❌ ERROR: ${message}`);
-    if (error) {
-      // Handle Error objects specially to show stack trace
-      if (error instanceof Error) {
-        console.error(error.stack || error.message);
-      } else {
-        console.error(error);
-      }
-    }
+  error(message: string, error?: unknown): void {
+    this.write('error', message, `❌ ERROR: ${message}`, error);
   }
 
   /**
    * Log a test step
-   * @param stepNumber - Sequential step number
+   * @param stepNumber - Sequential step number, e.g. 2 or "2.1" for a nested step
    * @param description - Description of what this step does
    */
-  static step(stepNumber: number, description: string): void {
-    console.log(`[${this.getTimestamp()}] 📍 STEP ${stepNumber}: ${description}`);
+  step(stepNumber: number | string, description: string): void {
+    context.step = stepNumber;
+    this.write('step', description, `📍 STEP ${stepNumber}: ${description}`);
+  }
+
+  /**
+   * Log the end of a step started with step()
+   * @param stepNumber - Number the step was started with
+   * @param description - Description of the step
+   * @param durationMs - How long the step took
+   * @param passed - Whether the step completed without throwing
+   */
+  stepEnd(
+    stepNumber: number | string,
+    description: string,
+    durationMs: number,
+    passed: boolean
+  ): void {
+    context.step = stepNumber;
+    const seconds = (durationMs / 1000).toFixed(1);
+    this.write(
+      'stepEnd',
+      description,
+      `${passed ? '🏁' : '💥'} STEP ${stepNumber} ${passed ? 'done' : 'FAILED'} in ${seconds}s`,
+      { durationMs, passed }
+    );
   }
 
   /**
    * Log the start of a test
    * @param testName - Name of the test being started
    */
-  static testStart(testName: string): void {
-    console.log(`\n${'='.repeat(80)}`);
-    console.log(`[${this.getTimestamp()}] 🚀 Starting Test: ${testName}`);
-    console.log(`${'='.repeat(80)}\n`);
+  testStart(testName: string): void {
+    delete context.step;
+    this.write('testStart', testName, `🚀 Starting Test: ${testName}`);
   }
 
   /**
@@ -89,21 +258,173 @@ export class Logger {
    * @param testName - Name of the test that finished
    * @param passed - Whether the test passed or failed
    */
-  static testEnd(testName: string, passed: boolean): void {
-    console.log(`\n${'='.repeat(80)}`);
-    console.log(`[${this.getTimestamp()}] ${passed ? '✅ PASSED' : '❌ FAILED'}: ${testName}`);
-    console.log(`${'='.repeat(80)}\n`);
+  testEnd(testName: string, passed: boolean): void {
+    this.write('testEnd', testName, `${passed ? '✅ PASSED' : '❌ FAILED'}: ${testName}`, {
+      passed,
+    });
   }
 
   /**
-   * Log debug information (only in verbose mode)
-   * @param message - Debug message
-   * @param data - Optional debug data
+   * Redact, print to the console and hand the entry to the sinks
+   * @param message - Message of the structured entry
+   * @param line - Console text after the prefix
+   * @param data - Optional data, printed and kept on the entry
    */
-  static debug(message: string, data?: unknown): void {
-    if (process.env.DEBUG === 'true') {
-      console.log(`[${this.getTimestamp()}] 🐛 DEBUG: ${message}`);
-      if (data) console.log(JSON.stringify(data, null, 2));
+  private write(event: LogEvent, message: string, line: string, data?: unknown): void {
+    const level = EVENT_LEVELS[event];
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const safeData = data === undefined ? undefined : redact(data);
+    this.print(event, redactText(line), safeData);
+
+    if (sinks.length === 0) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      event,
+      module: this.module,
+      message: redactText(message),
+      ...context,
+      ...(safeData === undefined ? {} : { data: safeData }),
+    };
+
+    for (const sink of sinks) {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // A broken sink must never fail the test; report it on the console only
+        console.error(`Log sink failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private print(event: LogEvent, line: string, data: unknown): void {
+    const info = stderrOnly ? console.error : console.log;
+    const output = event === 'error' ? console.error : event === 'warning' ? console.warn : info;
+    const banner = event === 'testStart' || event === 'testEnd';
+
+    if (banner) info(`\n${'='.repeat(80)}`);
+    output(`${this.prefix()} ${line}`);
+    if (banner) info(`${'='.repeat(80)}\n`);
+
+    // Step and test results are already in the line
+    if (!data || event === 'stepEnd' || event === 'testEnd') {
+      return;
+    }
+    if (typeof data === 'object' && 'stack' in data) {
+      // Errors (redacted to { name, message, stack }) show their stack trace
+      const error = data as { stack?: string; message?: string };
+      output(error.stack || error.message);
+    } else if (event === 'error') {
+      output(data);
+    } else {
+      output(JSON.stringify(data, null, 2));
+    }
+  }
+
+  /**
+   * Timestamp, plus the worker and module when known, so interleaved output can be told apart
+   */
+  private prefix(): string {
+    const worker = context.worker === undefined ? '' : ` [w${context.worker}]`;
+    const module = this.module === DEFAULT_MODULE ? '' : ` [${this.module}]`;
+    return `[${new Date().toISOString()}]${worker}${module}`;
+  }
+}
+
+export class Logger {
+  private static readonly root = new ModuleLogger(DEFAULT_MODULE);
+  private static readonly modules = new Map<string, ModuleLogger>();
+
+  /**
+   * Logger for a module, whose level can be set with LOG_LEVELS
+   * @param module - Module name, e.g. "database", "auth", "pages"
+   */
+  static for(module: string): ModuleLogger {
+    let logger = this.modules.get(module);
+    if (!logger) {
+      logger = new ModuleLogger(module);
+      this.modules.set(module, logger);
     }
+    return logger;
+  }
+
+  /**
+   * Register a sink to receive every entry from now on
+   */
+  static addSink(sink: LogSink): void {
+    sinks.push(sink);
+  }
+
+  /**
+   * Stop sending entries to a sink
+   */
+  static removeSink(sink: LogSink): void {
+    sinks = sinks.filter((registered) => registered !== sink);
+  }
+
+  /**
+   * Write every level to stderr from now on, leaving stdout to a script's own output,
+   * e.g. a JSON report
+   */
+  static useStderr(): void {
+    stderrOnly = true;
+  }
+
+  /**
+   * Set the worker / test that following entries belong to
+   */
+  static setContext(newContext: LogContext): void {
+    context = { ...newContext };
+  }
+
+  static trace(message: string, data?: unknown): void {
+    this.root.trace(message, data);
+  }
+
+  static debug(message: string, data?: unknown): void {
+    this.root.debug(message, data);
+  }
+
+  static info(message: string, data?: unknown): void {
+    this.root.info(message, data);
+  }
+
+  static success(message: string, data?: unknown): void {
+    this.root.success(message, data);
+  }
+
+  static warning(message: string, data?: unknown): void {
+    this.root.warning(message, data);
+  }
+
+  static error(message: string, error?: unknown): void {
+    this.root.error(message, error);
+  }
+
+  static step(stepNumber: number | string, description: string): void {
+    this.root.step(stepNumber, description);
+  }
+
+  static stepEnd(
+    stepNumber: number | string,
+    description: string,
+    durationMs: number,
+    passed: boolean
+  ): void {
+    this.root.stepEnd(stepNumber, description, durationMs, passed);
+  }
+
+  static testStart(testName: string): void {
+    this.root.testStart(testName);
+  }
+
+  static testEnd(testName: string, passed: boolean): void {
+    this.root.testEnd(testName, passed);
   }
 }
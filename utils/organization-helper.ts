@@ -1,15 +1,81 @@
-import { Page } from '@playwright/test';
+import { APIRequestContext, Page } from '@playwright/test';
 import { DatabaseHelper } from './database-helper';
-import { TestDataGenerator } from './test-data-generator';
+import { TestDataGenerator, OrganizationData } from './test-data-generator';
 import { OrganizationPage } from '../pages/OrganizationPage';
 import { DashboardPage } from '../pages/DashboardPage';
+import { Navigator } from '../pages/Navigator';
+import { AuthState } from './auth-state';
 import { Logger } from './logger';
+import { Wait } from './wait';
+import testConfig from '../config/test-config';
+
+const log = Logger.for('organization');
+
+/**
+ * Organization returned by the better-auth organization API
+ */
+export interface ApiOrganization {
+  id: string;
+  name: string;
+  slug: string;
+}
 
 /**
  * Organization Helper Utility
  * Provides reusable methods for ensuring an active organization exists
  */
 export class OrganizationHelper {
+  /**
+   * Create an organization through the app's better-auth API, as the user signed in on
+   * the request context. The creator becomes its owner.
+   */
+  static async createViaApi(
+    request: APIRequestContext,
+    orgData: OrganizationData
+  ): Promise<ApiOrganization> {
+    const response = await request.post('/api/auth/organization/create', {
+      data: { name: orgData.name, slug: orgData.slug },
+    });
+    if (!response.ok()) {
+      throw new Error(
+        `Creating organization "${orgData.slug}" failed: ${response.status()} ${await response.text()}`
+      );
+    }
+
+    const organization = (await response.json()) as ApiOrganization;
+    log.success(`Organization "${organization.slug}" created via API`);
+    return organization;
+  }
+
+  /**
+   * Set the active organization of the session signed in on the request context
+   */
+  static async setActiveViaApi(request: APIRequestContext, organizationId: string): Promise<void> {
+    const response = await request.post('/api/auth/organization/set-active', {
+      data: { organizationId },
+    });
+    if (!response.ok()) {
+      throw new Error(
+        `Activating organization ${organizationId} failed: ${response.status()} ${await response.text()}`
+      );
+    }
+    log.info(`Activated organization ${organizationId}`);
+  }
+
+  /**
+   * Delete an organization through the app's better-auth API
+   */
+  static async deleteViaApi(request: APIRequestContext, organizationId: string): Promise<void> {
+    const response = await request.post('/api/auth/organization/delete', {
+      data: { organizationId },
+    });
+    if (!response.ok()) {
+      throw new Error(
+        `Deleting organization ${organizationId} failed: ${response.status()} ${await response.text()}`
+      );
+    }
+  }
+
   /**
    * Ensure there is an active organization before running tests
    * Creates one if none exists, or activates the first available if none is active
@@ -27,29 +93,25 @@ export class OrganizationHelper {
     dashboardPage: DashboardPage,
     organizationPage: OrganizationPage
   ): Promise<string> {
-    Logger.info('Ensuring an active organization exists...');
+    log.info('Ensuring an active organization exists...');
 
     // Navigate to organization page
-    await dashboardPage.expandSidebarGroup('Organization');
-    await page.locator('a[data-slot="sidebar-menu-sub-button"][href="/organization"]').click();
-    await page.waitForURL('**/organization', { timeout: 10000 });
-    await page.waitForLoadState('domcontentloaded');
+    await new Navigator(page).to(OrganizationPage);
 
     // MANUAL REFRESH: Refresh the page to ensure we have the latest data
-    Logger.info('Refreshing organization page to ensure latest data...');
+    log.info('Refreshing organization page to ensure latest data...');
     await page.reload();
     await page.waitForLoadState('networkidle');
-    await page.waitForTimeout(1000);
 
-    // Wait a bit for the table to render
-    await page.waitForTimeout(1000);
+    // The list renders once its skeletons clear; without organizations there is no table
+    await Wait.forLoadingToFinish(page);
 
     // Check if there are any organizations in the table
     const table = page.locator('table[data-testid="data-grid"]');
     const hasTable = await table.isVisible().catch(() => false);
 
     if (!hasTable) {
-      Logger.info('No organization table found — creating new organization');
+      log.info('No organization table found — creating new organization');
       return await this.createNewOrganization(page, dashboardPage, organizationPage);
     }
 
@@ -58,7 +120,7 @@ export class OrganizationHelper {
 
     // CASE 1: No organizations exist - create one
     if (rowCount === 0) {
-      Logger.info('No organizations found in table — creating a new organization');
+      log.info('No organizations found in table — creating a new organization');
       return await this.createNewOrganization(page, dashboardPage, organizationPage);
     }
 
@@ -88,7 +150,7 @@ export class OrganizationHelper {
         const buttonTitle = await button.getAttribute('title');
         if (buttonTitle === 'Active organization') {
           activeOrgSlug = slug;
-          Logger.info(`Found active organization: ${activeOrgSlug}`);
+          log.info(`Found active organization: ${activeOrgSlug}`);
           break;
         }
       }
@@ -96,7 +158,7 @@ export class OrganizationHelper {
 
     // CASE 3: No active organization found - activate the first one
     if (!activeOrgSlug && rowCount > 0) {
-      Logger.info('No active organization found. Activating the first organization...');
+      log.info('No active organization found. Activating the first organization...');
 
       const firstRow = rows.first();
       const slugCell = firstRow.locator('td:nth-child(4) div[title]');
@@ -113,14 +175,14 @@ export class OrganizationHelper {
           await useButton.click();
           await page.waitForLoadState('networkidle');
           activeOrgSlug = slug;
-          Logger.success(`Organization "${slug}" activated`);
+          log.success(`Organization "${slug}" activated`);
         } else {
           // Check if it's already active
           const activeButton = firstRow.locator('td:first-child button[title="Active organization"]');
           const hasActiveButton = await activeButton.isVisible().catch(() => false);
           if (hasActiveButton) {
             activeOrgSlug = slug;
-            Logger.info(`Organization "${slug}" is already active`);
+            log.info(`Organization "${slug}" is already active`);
           }
         }
       }
@@ -128,13 +190,87 @@ export class OrganizationHelper {
 
     // If we still don't have an active organization, create one
     if (!activeOrgSlug) {
-      Logger.info('Could not find or activate an existing organization — creating new one');
+      log.info('Could not find or activate an existing organization — creating new one');
       return await this.createNewOrganization(page, dashboardPage, organizationPage);
     }
 
     return activeOrgSlug;
   }
 
+  /**
+   * Faster alternative to ensureActiveOrganization: picks the organization from the database
+   * and sets `session.active_organization_id` on the page's own session, then checks the
+   * organization list shows it as active. Falls back to the UI walk without a database.
+   *
+   * Only ever activates a `test-org-*` organization, never a real tenant: the one given by
+   * `organizationId` (e.g. the worker organization), else the session's current test
+   * organization, else the oldest one — creating one when the user has none.
+   *
+   * @param organizationId - Activate this test organization of the user
+   * @returns The slug of the active organization
+   */
+  static async ensureActiveOrganizationFromDatabase(
+    page: Page,
+    database: DatabaseHelper,
+    dashboardPage: DashboardPage,
+    organizationPage: OrganizationPage,
+    organizationId?: string
+  ): Promise<string> {
+    if (!testConfig.database.enabled) {
+      return this.ensureActiveOrganization(page, database, dashboardPage, organizationPage);
+    }
+
+    const cookie = AuthState.sessionCookie(await page.context().storageState());
+    if (!cookie) {
+      throw new Error('The page has no session cookie - sign in before activating an organization');
+    }
+    const token = AuthState.sessionToken(cookie);
+    const session = await DatabaseHelper.findSessionByToken(token);
+    if (!session) {
+      throw new Error('The page session was not found in the session table');
+    }
+
+    const isTestOrg = (slug: string) => slug.startsWith(testConfig.testData.testOrgPrefix);
+    const isActive = (id: string) => id === session.activeOrganizationId;
+    const organizations = await DatabaseHelper.findOrganizationsForUser(session.userId);
+    const testOrganizations = organizations.filter((organization) => isTestOrg(organization.slug));
+
+    let preferred: { id: string; slug: string } | undefined;
+    if (organizationId) {
+      preferred = testOrganizations.find((organization) => organization.id === organizationId);
+      if (!preferred) {
+        throw new Error(`Organization ${organizationId} is not a test organization of this user`);
+      }
+    } else {
+      // Array.sort is stable, so organizations otherwise keep their creation order
+      [preferred] = testOrganizations.sort(
+        (a, b) => Number(isActive(b.id)) - Number(isActive(a.id))
+      );
+    }
+
+    const organization: { id: string; slug: string } =
+      preferred ?? (await this.createViaApi(page.request, TestDataGenerator.generateOrganization()));
+
+    if (!isActive(organization.id)) {
+      if (!(await DatabaseHelper.setSessionActiveOrganization(token, organization.id))) {
+        throw new Error(`Could not set organization "${organization.slug}" active on the session`);
+      }
+      // better-auth may cache the session in a cookie - drop it so the server re-reads the row
+      await page.context().clearCookies({ name: /session_data$/ });
+      log.info(`Activated organization "${organization.slug}" for this session`);
+    } else {
+      log.info(`Organization "${organization.slug}" is already active`);
+    }
+
+    await page.goto('/organization');
+    if (!(await organizationPage.isOrganizationActive(organization.slug))) {
+      throw new Error(`Organization "${organization.slug}" is not shown as active in the UI`);
+    }
+    log.success(`Organization "${organization.slug}" is active`);
+
+    return organization.slug;
+  }
+
   /**
    * Create a new organization and activate it
    */
@@ -143,7 +279,7 @@ export class OrganizationHelper {
     dashboardPage: DashboardPage,
     organizationPage: OrganizationPage
   ): Promise<string> {
-    Logger.info('Creating a new organization...');
+    log.info('Creating a new organization...');
 
     const orgData = TestDataGenerator.generateOrganization();
 
@@ -154,13 +290,13 @@ export class OrganizationHelper {
 
     // Wait for creation to complete
     await organizationPage.verifyNavigationAfterSubmit();
-    Logger.success(`Organization "${orgData.name}" created successfully`);
+    log.success(`Organization "${orgData.name}" created successfully`);
 
     // Navigate back to organization list and activate it
-    await dashboardPage.navigateToOrganization();
+    await new Navigator(page).to(OrganizationPage);
     
     // MANUAL REFRESH: Refresh after navigation to ensure latest data
-    Logger.info('Refreshing organization page after creation...');
+    log.info('Refreshing organization page after creation...');
     await page.reload();
     await page.waitForLoadState('networkidle');
     
@@ -173,7 +309,7 @@ export class OrganizationHelper {
       if (buttonTitle === 'Set as active organization') {
         await useButton.click();
         await page.waitForLoadState('networkidle');
-        Logger.success(`Organization "${orgData.slug}" activated`);
+        log.success(`Organization "${orgData.slug}" activated`);
       }
     }
 
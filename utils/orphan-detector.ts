@@ -0,0 +1,168 @@
+/**
+ * Orphaned Test Data Detector
+ * Reports what test runs left in the database: test data recognised by its naming conventions
+ * (see TestDataSweep) that is older than any test still running, and rows whose reference points at a row that no longer
+ * exists — e.g. `"skuCategory_vs_Suppliers"` links or `"skuRate"` rows of a deleted supplier.
+ * Read-only; `npm run db:cleanup` removes what it finds.
+ */
+
+import { CascadeDelete } from './cascade-delete';
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+import { CleanupEntityType } from './test-cleanup';
+import { SweepFilter, TestDataRow, TestDataSweep } from './test-data-sweep';
+import { TEST_TIMEOUT_MS } from '../config/environments';
+
+const log = Logger.for('database');
+
+/**
+ * A column holding the ID of a row in another table
+ */
+export interface Reference {
+  table: string;
+  column: string;
+  parentTable: string;
+  parentColumn: string;
+}
+
+/**
+ * Rows of one reference whose parent row is gone
+ */
+export interface DanglingReference extends Reference {
+  count: number;
+  /** A few of the missing parent IDs */
+  missingIds: string[];
+}
+
+export interface OrphanReport {
+  generatedAt: string;
+  /** Test data created before the run's cutoff */
+  leftovers: {
+    counts: Partial<Record<CleanupEntityType, number>>;
+    rows: TestDataRow[];
+  };
+  dangling: DanglingReference[];
+  /** Leftover rows plus dangling rows */
+  total: number;
+}
+
+function ref(table: string, column: string, parentTable: string): Reference {
+  return { table, column, parentTable, parentColumn: 'id' };
+}
+
+/**
+ * References checked whether or not the schema declares a foreign key for them — the app
+ * does not constrain every one, so deleting a parent can leave its rows behind. Declared
+ * foreign keys are read from the schema and checked as well.
+ */
+export const KNOWN_REFERENCES: Reference[] = [
+  ref('skuCategory_vs_Suppliers', 'skuCategoryId', 'skuCategory'),
+  ref('skuCategory_vs_Suppliers', 'supplierId', 'suppliers'),
+  ref('suppliers_to_supplier_groups', 'supplier_id', 'suppliers'),
+  ref('suppliers_to_supplier_groups', 'supplier_group_id', 'supplier_groups'),
+  ref('skuRate', 'skuId', 'sku'),
+  ref('skuRate', 'supplierId', 'suppliers'),
+  ref('skuProperties', 'skuId', 'sku'),
+  ref('sku', 'skuCategoryId', 'skuCategory'),
+  ref('sku', 'skuClassificationId', 'skuClassification'),
+  ref('skuCategory', 'supplierGroupId', 'supplier_groups'),
+  ref('member', 'user_id', 'user'),
+  ref('member', 'organization_id', 'organization'),
+];
+
+// Missing parent IDs listed per dangling reference
+const SAMPLE_SIZE = 5;
+
+/**
+ * Age below which test data is not counted as left over unless the filter says otherwise:
+ * a test may still be using it, at most for as long as one test can run
+ */
+export const DEFAULT_LEFTOVER_AGE_MS = TEST_TIMEOUT_MS;
+
+export class OrphanDetector {
+  /**
+   * Scan the database for leftover test data and dangling references
+   * @param filter - Which test data counts as left over; rows younger than
+   *   DEFAULT_LEFTOVER_AGE_MS are not unless `olderThanMs` is given
+   */
+  static async scan(filter: SweepFilter = {}): Promise<OrphanReport> {
+    const rows = await TestDataSweep.find({ olderThanMs: DEFAULT_LEFTOVER_AGE_MS, ...filter });
+    const dangling = await this.findDangling();
+
+    const report: OrphanReport = {
+      generatedAt: new Date().toISOString(),
+      leftovers: { counts: TestDataSweep.countByType(rows), rows },
+      dangling,
+      total: rows.length + dangling.reduce((sum, reference) => sum + reference.count, 0),
+    };
+    log.info(
+      `Orphan scan: ${rows.length} leftover test rows, ${dangling.length} dangling references`
+    );
+    return report;
+  }
+
+  /**
+   * References, declared or not, that have rows pointing at a missing parent
+   */
+  static async findDangling(): Promise<DanglingReference[]> {
+    const dangling: DanglingReference[] = [];
+
+    for (const reference of await this.references()) {
+      const { table, column, parentTable, parentColumn } = reference;
+      const [result] = await DatabaseHelper.query<{ count: number; missingIds: string[] | null }>(
+        `SELECT COUNT(*)::int AS count,
+           (array_agg(DISTINCT c."${column}"::text))[1:${SAMPLE_SIZE}] AS "missingIds"
+         FROM "${table}" c
+         WHERE c."${column}" IS NOT NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM "${parentTable}" p WHERE p."${parentColumn}"::text = c."${column}"::text
+           )`
+      );
+      if (result.count > 0) {
+        dangling.push({ ...reference, count: result.count, missingIds: result.missingIds ?? [] });
+      }
+    }
+
+    return dangling;
+  }
+
+  /**
+   * Declared foreign keys plus the known references whose columns exist in this schema,
+   * each once
+   */
+  private static async references(): Promise<Reference[]> {
+    const declared = await DatabaseHelper.transaction(async (client) => {
+      const graph = await CascadeDelete.loadGraph(client);
+      return [...graph.values()].flat().map(
+        (fk): Reference => ({
+          table: fk.childTable,
+          column: fk.childColumn,
+          parentTable: fk.parentTable,
+          parentColumn: fk.parentColumn,
+        })
+      );
+    });
+
+    const columns = new Set(
+      (
+        await DatabaseHelper.query<{ name: string }>(
+          `SELECT table_name || '.' || column_name AS name
+           FROM information_schema.columns WHERE table_schema = current_schema()`
+        )
+      ).map(({ name }) => name)
+    );
+
+    const references = new Map<string, Reference>();
+    for (const reference of [...declared, ...KNOWN_REFERENCES]) {
+      const key = `${reference.table}.${reference.column}`;
+      if (!columns.has(key) || !columns.has(`${reference.parentTable}.${reference.parentColumn}`)) {
+        log.debug(`Orphan scan: skipping ${key}, not in this schema`);
+        continue;
+      }
+      if (!references.has(key)) {
+        references.set(key, reference);
+      }
+    }
+    return [...references.values()];
+  }
+}
@@ -0,0 +1,553 @@
+/**
+ * Entity Repositories for Test Suite
+ * Typed read/insert/delete access to the business tables created by the dashboard specs.
+ * Every column is declared once in a column map, so specs never embed raw SQL
+ * and a wrong column name or casing becomes a compile error instead of a runtime one.
+ */
+
+import { randomUUID } from 'crypto';
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+
+const log = Logger.for('database');
+
+// Database row types (matching the Drizzle schema in the BE POR app)
+export interface ClientRow {
+  id: string;
+  displayName: string;
+  organizationId: string;
+}
+
+export interface SupplierRow {
+  id: string;
+  displayName: string;
+  organizationId: string;
+}
+
+export interface SupplierGroupRow {
+  id: string;
+  displayName: string;
+  organizationId: string;
+}
+
+export interface SkuCategoryRow {
+  id: string;
+  displayName: string;
+  organizationId: string;
+  ifRateNotFoundUse: string | null;
+  supplierGroupId: string | null;
+}
+
+export interface SkuClassificationRow {
+  id: string;
+  displayName: string;
+  organizationId: string;
+}
+
+export interface SkuRow {
+  id: string;
+  displayName: string;
+  organizationId: string;
+  skuCategoryId: string;
+  skuClassificationId: string | null;
+  unitId: string | null;
+}
+
+export interface SkuPropertyRow {
+  id: string;
+  skuId: string;
+  propertyType: string;
+  value: string;
+  unitId: string | null;
+}
+
+export interface SkuRateRow {
+  id: string;
+  skuId: string;
+  supplierId: string;
+  rate: string;
+  previousRate: string | null;
+  rateLastUpdatedAt: Date;
+}
+
+/**
+ * Rate joined with the names shown in the SKU Master Rates grid
+ */
+export interface SkuRateDetail extends SkuRateRow {
+  skuName: string;
+  supplierName: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Maps every property of a row type to its SQL column name.
+ * Must list every key of the row, which is what turns casing mistakes into compile errors.
+ */
+export type ColumnMap<T> = { readonly [K in keyof T]-?: string };
+
+/**
+ * Base repository: builds quoted SELECT/DELETE statements from a table name and column map.
+ * Follows the DatabaseHelper convention of logging failures and returning an empty result.
+ */
+export abstract class EntityRepository<T extends { id: string }> {
+  /** Unquoted table name, e.g. `client` or `skuCategory` */
+  abstract readonly table: string;
+
+  /** Property → column mapping for the table */
+  protected abstract readonly columns: ColumnMap<T>;
+
+  /**
+   * Quote an SQL identifier so camelCase and snake_case columns are both handled the same way
+   */
+  protected quote(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * SELECT list aliasing every column back to its row property
+   */
+  protected get selectList(): string {
+    return (Object.keys(this.columns) as (keyof T & string)[])
+      .map((key) => `${this.quote(this.columns[key])} AS ${this.quote(key)}`)
+      .join(', ');
+  }
+
+  /**
+   * Build a parameterised WHERE clause from a partial row
+   */
+  protected buildWhere(criteria: Partial<T>): { clause: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    for (const key of Object.keys(criteria) as (keyof T & string)[]) {
+      const value = criteria[key];
+      if (value === undefined) continue;
+
+      const column = this.quote(this.columns[key]);
+      if (value === null) {
+        conditions.push(`${column} IS NULL`);
+      } else {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (conditions.length === 0) {
+      return { clause: '', params };
+    }
+    return { clause: ` WHERE ${conditions.join(' AND ')}`, params };
+  }
+
+  /**
+   * Find rows matching every given property, ordered by ID so the first match is stable
+   */
+  async findWhere(criteria: Partial<T> = {}, limit?: number): Promise<T[]> {
+    const { clause, params } = this.buildWhere(criteria);
+    const limitClause = limit ? ` LIMIT ${Math.floor(limit)}` : '';
+
+    try {
+      return await DatabaseHelper.query<T>(
+        `SELECT ${this.selectList} FROM ${this.quote(this.table)}${clause}
+         ORDER BY ${this.quote(this.columns.id)}${limitClause}`,
+        params
+      );
+    } catch (error) {
+      log.error(`Failed to query ${this.table}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the first row matching every given property
+   */
+  async findOneWhere(criteria: Partial<T>): Promise<T | null> {
+    const rows = await this.findWhere(criteria, 1);
+    return rows[0] || null;
+  }
+
+  /**
+   * Find row by ID
+   */
+  async findById(id: string): Promise<T | null> {
+    return this.findOneWhere({ id } as Partial<T>);
+  }
+
+  /**
+   * Rows an identifier registered for cleanup refers to. Tables without a display name are
+   * registered by ID only.
+   * @param _organizationId - Organization a display name is looked up in (named tables)
+   */
+  async resolve(identifier: string, _organizationId: string | null = null): Promise<T[]> {
+    if (!isUuid(identifier)) {
+      throw new Error(`${this.table} rows are registered by ID only, got "${identifier}"`);
+    }
+    const row = await this.findById(identifier);
+    return row ? [row] : [];
+  }
+
+  /**
+   * Count rows matching every given property
+   */
+  async count(criteria: Partial<T> = {}): Promise<number> {
+    const { clause, params } = this.buildWhere(criteria);
+
+    try {
+      const result = await DatabaseHelper.query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM ${this.quote(this.table)}${clause}`,
+        params
+      );
+      return parseInt(result[0]?.count || '0', 10);
+    } catch (error) {
+      log.error(`Failed to count ${this.table}`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Insert a row and return it as stored. The ID is generated when not given, as the app's
+   * Drizzle schema does; columns left out take their database default.
+   * Throws on failure instead of returning an empty result — a row a test depends on
+   * must not go missing silently.
+   */
+  async insert(values: Partial<T>): Promise<T> {
+    const row: Partial<T> = { id: randomUUID(), ...values };
+    const keys = (Object.keys(row) as (keyof T & string)[]).filter((key) => row[key] !== undefined);
+    const columns = keys.map((key) => this.quote(this.columns[key])).join(', ');
+    const placeholders = keys.map((_, index) => `$${index + 1}`).join(', ');
+
+    try {
+      const [inserted] = await DatabaseHelper.query<T>(
+        `INSERT INTO ${this.quote(this.table)} (${columns}) VALUES (${placeholders})
+         RETURNING ${this.selectList}`,
+        keys.map((key) => row[key])
+      );
+      return inserted;
+    } catch (error) {
+      log.error(`Failed to insert into ${this.table}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete rows matching every given property
+   * @returns Number of rows deleted
+   */
+  async deleteWhere(criteria: Partial<T>): Promise<number> {
+    const { clause, params } = this.buildWhere(criteria);
+    if (!clause) {
+      throw new Error(`Refusing to delete from ${this.table} without criteria`);
+    }
+
+    try {
+      const result = await DatabaseHelper.query<{ id: string }>(
+        `DELETE FROM ${this.quote(this.table)}${clause} RETURNING ${this.quote(this.columns.id)}`,
+        params
+      );
+      if (result.length > 0) {
+        log.info(`Deleted ${result.length} row(s) from ${this.table}`);
+      }
+      return result.length;
+    } catch (error) {
+      log.error(`Failed to delete from ${this.table}`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete row by ID, together with every row referencing it (junction rows, properties, rates)
+   */
+  async deleteById(id: string): Promise<boolean> {
+    try {
+      const report = await DatabaseHelper.cascadeDelete(this.table, this.columns.id, id);
+      return (report.deleted[this.table] || 0) > 0;
+    } catch (error) {
+      log.error(`Failed to delete ${id} from ${this.table}`, error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Repository for tenant-scoped tables that have a display name
+ */
+export abstract class NamedEntityRepository<
+  T extends { id: string; displayName: string; organizationId: string },
+> extends EntityRepository<T> {
+  /**
+   * Rows an identifier registered for cleanup refers to: the row with that ID or, for a
+   * display name, every row with that name in the organization — never in another tenant
+   */
+  async resolve(identifier: string, organizationId: string | null = null): Promise<T[]> {
+    if (isUuid(identifier)) {
+      return super.resolve(identifier);
+    }
+    if (!organizationId) {
+      throw new Error(
+        `Cannot look up ${this.table} "${identifier}" by name without an organization`
+      );
+    }
+    return this.findWhere({ displayName: identifier, organizationId } as Partial<T>);
+  }
+
+  /**
+   * Find row by display name within an organization — names repeat across tenants and
+   * across reruns with the same TEST_SEED
+   */
+  async findByName(displayName: string, organizationId: string): Promise<T | null> {
+    return this.findOneWhere({ displayName, organizationId } as Partial<T>);
+  }
+
+  /**
+   * Find all rows belonging to an organization
+   */
+  async findByOrganization(organizationId: string): Promise<T[]> {
+    return this.findWhere({ organizationId } as Partial<T>);
+  }
+
+  /**
+   * Count rows belonging to an organization
+   */
+  async countByOrganization(organizationId: string): Promise<number> {
+    return this.count({ organizationId } as Partial<T>);
+  }
+
+  /**
+   * Delete rows by display name within an organization
+   */
+  async deleteByName(displayName: string, organizationId: string): Promise<boolean> {
+    return (await this.deleteWhere({ displayName, organizationId } as Partial<T>)) > 0;
+  }
+}
+
+/**
+ * Delete rows from a junction table (no id column of its own) by one foreign key
+ */
+async function deleteJunctionRows(table: string, column: string, value: string): Promise<number> {
+  try {
+    const result = await DatabaseHelper.query(
+      `DELETE FROM "${table}" WHERE "${column}" = $1 RETURNING 1`,
+      [value]
+    );
+    return result.length;
+  } catch (error) {
+    log.error(`Failed to delete from ${table}`, error);
+    return 0;
+  }
+}
+
+export class ClientRepository extends NamedEntityRepository<ClientRow> {
+  readonly table = 'client';
+  protected readonly columns: ColumnMap<ClientRow> = {
+    id: 'id',
+    displayName: 'display_name',
+    organizationId: 'organization_id',
+  };
+}
+
+export class SupplierRepository extends NamedEntityRepository<SupplierRow> {
+  readonly table = 'suppliers';
+  protected readonly columns: ColumnMap<SupplierRow> = {
+    id: 'id',
+    displayName: 'display_name',
+    organizationId: 'organization_id',
+  };
+
+  /**
+   * Delete the supplier's supplier-group links (suppliers_to_supplier_groups)
+   */
+  async deleteGroupLinks(supplierId: string): Promise<number> {
+    return deleteJunctionRows('suppliers_to_supplier_groups', 'supplier_id', supplierId);
+  }
+}
+
+export class SupplierGroupRepository extends NamedEntityRepository<SupplierGroupRow> {
+  readonly table = 'supplier_groups';
+  protected readonly columns: ColumnMap<SupplierGroupRow> = {
+    id: 'id',
+    displayName: 'display_name',
+    organizationId: 'organization_id',
+  };
+
+  /**
+   * Delete the group's supplier links (suppliers_to_supplier_groups)
+   */
+  async deleteSupplierLinks(supplierGroupId: string): Promise<number> {
+    return deleteJunctionRows('suppliers_to_supplier_groups', 'supplier_group_id', supplierGroupId);
+  }
+}
+
+export class SkuCategoryRepository extends NamedEntityRepository<SkuCategoryRow> {
+  readonly table = 'skuCategory';
+  protected readonly columns: ColumnMap<SkuCategoryRow> = {
+    id: 'id',
+    displayName: 'displayName',
+    organizationId: 'organizationId',
+    ifRateNotFoundUse: 'ifRateNotFoundUse',
+    supplierGroupId: 'supplierGroupId',
+  };
+
+  /**
+   * Delete the category's supplier links (skuCategory_vs_Suppliers)
+   */
+  async deleteSupplierLinks(skuCategoryId: string): Promise<number> {
+    return deleteJunctionRows('skuCategory_vs_Suppliers', 'skuCategoryId', skuCategoryId);
+  }
+}
+
+export class SkuClassificationRepository extends NamedEntityRepository<SkuClassificationRow> {
+  readonly table = 'skuClassification';
+  protected readonly columns: ColumnMap<SkuClassificationRow> = {
+    id: 'id',
+    displayName: 'displayName',
+    organizationId: 'organizationId',
+  };
+}
+
+export class SkuRepository extends NamedEntityRepository<SkuRow> {
+  readonly table = 'sku';
+  protected readonly columns: ColumnMap<SkuRow> = {
+    id: 'id',
+    displayName: 'displayName',
+    organizationId: 'organizationId',
+    skuCategoryId: 'skuCategoryId',
+    skuClassificationId: 'skuClassificationId',
+    unitId: 'unitId',
+  };
+
+  /**
+   * Find all SKUs in a category
+   */
+  async findByCategory(skuCategoryId: string): Promise<SkuRow[]> {
+    return this.findWhere({ skuCategoryId });
+  }
+}
+
+export class SkuPropertyRepository extends EntityRepository<SkuPropertyRow> {
+  readonly table = 'skuProperties';
+  protected readonly columns: ColumnMap<SkuPropertyRow> = {
+    id: 'id',
+    skuId: 'skuId',
+    propertyType: 'propertyType',
+    value: 'value',
+    unitId: 'unitId',
+  };
+
+  /**
+   * Find all properties of a SKU
+   */
+  async findBySku(skuId: string): Promise<SkuPropertyRow[]> {
+    return this.findWhere({ skuId });
+  }
+
+  /**
+   * Delete all properties of a SKU
+   */
+  async deleteBySku(skuId: string): Promise<number> {
+    return this.deleteWhere({ skuId });
+  }
+}
+
+export class SkuRateRepository extends EntityRepository<SkuRateRow> {
+  readonly table = 'skuRate';
+  protected readonly columns: ColumnMap<SkuRateRow> = {
+    id: 'id',
+    skuId: 'skuId',
+    supplierId: 'supplierId',
+    rate: 'rate',
+    previousRate: 'previousRate',
+    rateLastUpdatedAt: 'rateLastUpdatedAt',
+  };
+
+  /**
+   * Find the rate of a SKU for a supplier
+   */
+  async findBySkuAndSupplier(skuId: string, supplierId: string): Promise<SkuRateRow | null> {
+    return this.findOneWhere({ skuId, supplierId });
+  }
+
+  /**
+   * Find all rates of a supplier
+   */
+  async findBySupplier(supplierId: string): Promise<SkuRateRow[]> {
+    return this.findWhere({ supplierId });
+  }
+
+  /**
+   * Find all rates of a supplier for the SKUs in a category, newest first
+   */
+  async findBySupplierAndCategory(
+    supplierId: string,
+    skuCategoryId: string
+  ): Promise<(SkuRateRow & { skuName: string })[]> {
+    try {
+      return await DatabaseHelper.query<SkuRateRow & { skuName: string }>(
+        `SELECT ${this.aliasedSelectList}, s."displayName" AS "skuName"
+         FROM "skuRate" sr
+         JOIN "sku" s ON s.id = sr."skuId"
+         WHERE sr."supplierId" = $1 AND s."skuCategoryId" = $2
+         ORDER BY sr."rateLastUpdatedAt" DESC`,
+        [supplierId, skuCategoryId]
+      );
+    } catch (error) {
+      log.error(`Failed to find rates for supplier ${supplierId}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Find every rate of an organization with its SKU and supplier names, ordered by SKU then supplier
+   */
+  async findDetailedByOrganization(organizationId: string): Promise<SkuRateDetail[]> {
+    try {
+      return await DatabaseHelper.query<SkuRateDetail>(
+        `SELECT ${this.aliasedSelectList}, s."displayName" AS "skuName", sp.display_name AS "supplierName"
+         FROM "skuRate" sr
+         JOIN "sku" s ON s.id = sr."skuId"
+         JOIN suppliers sp ON sp.id = sr."supplierId"
+         WHERE s."organizationId" = $1
+         ORDER BY s."displayName", sp.display_name`,
+        [organizationId]
+      );
+    } catch (error) {
+      log.error(`Failed to find rates for organization ${organizationId}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * SELECT list qualified with the `sr` alias, for queries joining other tables
+   */
+  private get aliasedSelectList(): string {
+    return (Object.keys(this.columns) as (keyof SkuRateRow)[])
+      .map((key) => `sr.${this.quote(this.columns[key])} AS ${this.quote(key)}`)
+      .join(', ');
+  }
+
+  /**
+   * Delete all rates of a SKU
+   */
+  async deleteBySku(skuId: string): Promise<number> {
+    return this.deleteWhere({ skuId });
+  }
+}
+
+/**
+ * One shared instance per table, exposed to specs through the `repositories` fixture
+ */
+export const repositories = {
+  clients: new ClientRepository(),
+  suppliers: new SupplierRepository(),
+  supplierGroups: new SupplierGroupRepository(),
+  skuCategories: new SkuCategoryRepository(),
+  skuClassifications: new SkuClassificationRepository(),
+  skus: new SkuRepository(),
+  skuProperties: new SkuPropertyRepository(),
+  skuRates: new SkuRateRepository(),
+};
+
+export type Repositories = typeof repositories;
@@ -0,0 +1,216 @@
+/**
+ * Role User Pool
+ * Provisions one user per organization role for permission tests. Each user is signed up
+ * through the UI, added to the organization with the requested `member.role` and signed in
+ * once; the storage state is cached so every test asking for that role reuses the session.
+ *
+ * Built-in better-auth roles (owner, admin, member) only need the `member` row. Any other
+ * role is created as a custom `organization_role` row from testConfig.roles.custom first.
+ * The pool lives for one worker and deletes its users and custom roles when disposed.
+ */
+
+import { Browser, BrowserContext } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { SignInPage } from '../pages/SignInPage';
+import { SignUpPage } from '../pages/SignUpPage';
+import { AuthState } from './auth-state';
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+import { TestDataGenerator, UserData } from './test-data-generator';
+import testConfig from '../config/test-config';
+import { assertDestructiveAllowed } from '../config/environments';
+
+const log = Logger.for('auth');
+
+export const BUILT_IN_ROLES = ['owner', 'admin', 'member'] as const;
+
+export type BuiltInRole = (typeof BUILT_IN_ROLES)[number];
+
+/**
+ * Access-control statements of a custom role, e.g. `{ client: ['read'] }`
+ */
+export type RolePermissions = Record<string, string[]>;
+
+/**
+ * A provisioned user holding one role in the pool's organization
+ */
+export interface RoleUser {
+  role: string;
+  userId: string;
+  email: string;
+  password: string;
+  organizationId: string;
+  /** Cached storage state to open a context signed in as this user */
+  storageStatePath: string;
+}
+
+export class RoleUserPool {
+  // Provisioning is shared, so parallel requests for the same role create one user
+  private users = new Map<string, Promise<RoleUser>>();
+  private customRoleIds: string[] = [];
+
+  /**
+   * @param browser - Browser used to sign the users up and in
+   * @param organizationId - Organization the users become members of
+   * @param customRoles - Custom role name → permissions, created on first use
+   */
+  constructor(
+    private readonly browser: Browser,
+    private readonly organizationId: string,
+    private readonly customRoles: Record<string, RolePermissions> = testConfig.roles.custom
+  ) {}
+
+  /**
+   * Roles the pool can provision
+   */
+  get roles(): string[] {
+    return [...BUILT_IN_ROLES, ...Object.keys(this.customRoles)];
+  }
+
+  /**
+   * User holding a role, provisioned on first request
+   */
+  async get(role: string): Promise<RoleUser> {
+    if (!this.roles.includes(role)) {
+      throw new Error(`Unknown role "${role}". Known roles: ${this.roles.join(', ')}`);
+    }
+
+    let user = this.users.get(role);
+    if (!user) {
+      user = this.provision(role);
+      this.users.set(role, user);
+      // Let a failed attempt be retried by the next test
+      user.catch(() => this.users.delete(role));
+    }
+    return user;
+  }
+
+  /**
+   * Delete every provisioned user (with their memberships and sessions) and custom role
+   */
+  async dispose(): Promise<void> {
+    const settled = await Promise.allSettled(this.users.values());
+    const users = settled.flatMap((result) =>
+      result.status === 'fulfilled' ? [result.value] : []
+    );
+
+    if (users.length === 0 && this.customRoleIds.length === 0) {
+      return;
+    }
+
+    try {
+      await DatabaseHelper.connect();
+      for (const user of users) {
+        await DatabaseHelper.deleteUserById(user.userId);
+        fs.rmSync(user.storageStatePath, { force: true });
+      }
+      if (this.customRoleIds.length > 0) {
+        await DatabaseHelper.cascadeDelete('organization_role', 'id', this.customRoleIds);
+      }
+      log.info(
+        `Removed ${users.length} role user(s) and ${this.customRoleIds.length} custom role(s)`
+      );
+    } catch (error) {
+      log.warning('Failed to remove role users', error);
+    }
+
+    this.users.clear();
+    this.customRoleIds = [];
+  }
+
+  private async provision(role: string): Promise<RoleUser> {
+    assertDestructiveAllowed('createData', `provision a "${role}" user`);
+    log.info(`👥 Provisioning a "${role}" user`);
+    await DatabaseHelper.connect();
+
+    if (!(BUILT_IN_ROLES as readonly string[]).includes(role)) {
+      await this.ensureCustomRole(role);
+    }
+
+    // Users outlive the test that provisions them, so they are not generated from its seed
+    const userData = TestDataGenerator.withRunNonce(`role-${this.organizationId}-${role}`, () =>
+      TestDataGenerator.generateUser()
+    );
+    const context = await this.browser.newContext({
+      baseURL: testConfig.baseUrl,
+      ignoreHTTPSErrors: true,
+    });
+
+    try {
+      await this.signUp(context, userData);
+
+      // Skip email verification, which the suite cannot complete
+      const [user] = await DatabaseHelper.query<{ id: string }>(
+        'UPDATE "user" SET email_verified = true WHERE email = $1 RETURNING id',
+        [userData.email]
+      );
+      if (!user) {
+        throw new Error(`Sign-up of the "${role}" user did not create ${userData.email}`);
+      }
+
+      await DatabaseHelper.query(
+        'INSERT INTO member (id, organization_id, user_id, role, created_at) VALUES ($1, $2, $3, $4, now())',
+        [randomUUID(), this.organizationId, user.id, role]
+      );
+
+      const page = await context.newPage();
+      await AuthState.signIn(page, userData);
+      await DatabaseHelper.query(
+        'UPDATE session SET active_organization_id = $1 WHERE user_id = $2',
+        [this.organizationId, user.id]
+      );
+      const storageStatePath = await AuthState.save(context, userData.email);
+
+      log.success(`"${role}" user ready: ${userData.email}`);
+      return {
+        role,
+        userId: user.id,
+        email: userData.email,
+        password: userData.password,
+        organizationId: this.organizationId,
+        storageStatePath,
+      };
+    } finally {
+      await context.close();
+    }
+  }
+
+  private async signUp(context: BrowserContext, userData: UserData): Promise<void> {
+    const page = await context.newPage();
+    const signInPage = new SignInPage(page);
+    const signUpPage = new SignUpPage(page);
+
+    await signInPage.navigateToHome();
+    await page.click('a:has-text("Sign In")');
+    await signInPage.navigateToSignUp();
+    await signUpPage.signUp(userData);
+
+    // A successful sign-up lands on the Sign In page
+    const signInTitle = await signInPage.verifySignInTitle();
+    await signInTitle.waitFor({ state: 'visible', timeout: testConfig.timeouts.long });
+    await page.close();
+  }
+
+  /**
+   * Create the `organization_role` row of a custom role, unless the organization already has it
+   */
+  private async ensureCustomRole(role: string): Promise<void> {
+    const existing = await DatabaseHelper.query<{ id: string }>(
+      'SELECT id FROM organization_role WHERE organization_id = $1 AND role = $2',
+      [this.organizationId, role]
+    );
+    if (existing.length > 0) {
+      return;
+    }
+
+    const id = randomUUID();
+    await DatabaseHelper.query(
+      `INSERT INTO organization_role (id, organization_id, role, permission, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, now(), now())`,
+      [id, this.organizationId, role, JSON.stringify(this.customRoles[role])]
+    );
+    this.customRoleIds.push(id);
+    log.debug(`Created custom role "${role}"`);
+  }
+}
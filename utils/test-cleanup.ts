@@ -0,0 +1,166 @@
+/**
+ * Test Cleanup Tracker
+ * Tracks every entity a test creates so it is deleted after the test, whatever its outcome.
+ * Entities are registered by ID or by their natural key (email, slug or display name) —
+ * usually right after the UI submit, before anything can fail — and removed children first
+ * through the cascade delete, so anything depending on them goes too.
+ */
+
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+import { EntityRepository, repositories } from './repositories';
+import testConfig from '../config/test-config';
+
+const log = Logger.for('cleanup');
+
+/**
+ * Entity types a test can register, in the order they are cleaned up (dependents first)
+ */
+export const CLEANUP_ORDER = [
+  'skuRate',
+  'sku',
+  'skuCategory',
+  'skuClassification',
+  'supplierGroup',
+  'supplier',
+  'client',
+  'organization',
+  'user',
+] as const;
+
+export type CleanupEntityType = (typeof CLEANUP_ORDER)[number];
+
+export type CleanupStats = Record<CleanupEntityType, number>;
+
+// Business entities are resolved and deleted through their repository
+const ENTITY_REPOSITORIES: Record<
+  Exclude<CleanupEntityType, 'user' | 'organization'>,
+  EntityRepository<{ id: string }>
+> = {
+  skuRate: repositories.skuRates,
+  sku: repositories.skus,
+  skuCategory: repositories.skuCategories,
+  skuClassification: repositories.skuClassifications,
+  supplierGroup: repositories.supplierGroups,
+  supplier: repositories.suppliers,
+  client: repositories.clients,
+};
+
+export class TestCleanup {
+  private registered = new Map<CleanupEntityType, Set<string>>();
+  private organizationId: string | null = null;
+
+  /**
+   * Organization the test works in. Business entities registered by display name are looked
+   * up there only, and every row with that name in it is deleted.
+   */
+  setOrganization(organizationId: string): void {
+    this.organizationId = organizationId;
+  }
+
+  /**
+   * Register an entity for cleanup by ID, or by email (user), slug (organization)
+   * or display name (business entities in the organization given to setOrganization)
+   */
+  register(entityType: CleanupEntityType, identifier: string): void {
+    const identifiers = this.registered.get(entityType) || new Set<string>();
+    identifiers.add(identifier);
+    this.registered.set(entityType, identifiers);
+    log.debug(`Registered ${entityType} for cleanup: ${identifier}`);
+  }
+
+  registerUser(email: string): void {
+    this.register('user', email);
+  }
+
+  registerOrganization(slug: string): void {
+    this.register('organization', slug);
+  }
+
+  async cleanup(): Promise<void> {
+    if (!testConfig.database.enabled) {
+      log.info('Skipping database cleanup - no database URL configured');
+      this.registered.clear();
+      return;
+    }
+
+    if (!testConfig.allowDestructive.cleanup) {
+      log.info(
+        `Skipping database cleanup - not allowed in the ${testConfig.environment} environment`
+      );
+      this.registered.clear();
+      return;
+    }
+
+    log.info('Starting test cleanup...');
+
+    try {
+      await DatabaseHelper.connect();
+    } catch (error) {
+      log.warning('Could not connect to database for cleanup', error);
+      return;
+    }
+
+    const stats = this.getStats();
+
+    for (const entityType of CLEANUP_ORDER) {
+      for (const identifier of this.registered.get(entityType) || []) {
+        try {
+          const deleted = await this.deleteEntity(entityType, identifier);
+          if (deleted) {
+            log.debug(`Cleaned up ${entityType}: ${identifier}`);
+          }
+        } catch (error) {
+          log.warning(`Failed to cleanup ${entityType} ${identifier}:`, error);
+        }
+      }
+    }
+
+    const summary = CLEANUP_ORDER.filter((entityType) => stats[entityType] > 0)
+      .map((entityType) => `${stats[entityType]} ${entityType}`)
+      .join(', ');
+    log.success(`Cleanup complete: ${summary || 'nothing registered'}`);
+
+    this.registered.clear();
+  }
+
+  /**
+   * Number of registered entities per entity type
+   */
+  getStats(): CleanupStats {
+    const stats = {} as CleanupStats;
+    for (const entityType of CLEANUP_ORDER) {
+      stats[entityType] = this.registered.get(entityType)?.size || 0;
+    }
+    return stats;
+  }
+
+  /**
+   * Resolve a registered identifier and delete the entity with its dependents.
+   * Entities the test already deleted itself resolve to nothing and are skipped.
+   */
+  private async deleteEntity(entityType: CleanupEntityType, identifier: string): Promise<boolean> {
+    switch (entityType) {
+      case 'user': {
+        const user =
+          (await DatabaseHelper.findUserByEmail(identifier)) ||
+          (await DatabaseHelper.findUserById(identifier));
+        return user ? DatabaseHelper.deleteUserById(user.id) : false;
+      }
+      case 'organization': {
+        const org =
+          (await DatabaseHelper.findOrganizationBySlug(identifier)) ||
+          (await DatabaseHelper.findOrganizationById(identifier));
+        return org ? DatabaseHelper.deleteOrganizationById(org.id) : false;
+      }
+      default: {
+        const repository = ENTITY_REPOSITORIES[entityType];
+        let deleted = false;
+        for (const row of await repository.resolve(identifier, this.organizationId)) {
+          deleted = (await repository.deleteById(row.id)) || deleted;
+        }
+        return deleted;
+      }
+    }
+  }
+}
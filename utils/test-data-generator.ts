@@ -1,6 +1,13 @@
-import { faker } from '@faker-js/faker';
+import { base, en, Faker } from '@faker-js/faker';
+import { createHash, randomBytes, randomInt } from 'crypto';
 import testConfig from '../config/test-config';
 
+/**
+ * Environment variable holding the run seed. Set it to the seed a failed run printed to
+ * generate the same data again.
+ */
+export const SEED_ENV_VAR = 'TEST_SEED';
+
 /**
  * User data structure for test user generation
  */
@@ -22,21 +29,88 @@ export interface OrganizationData {
 
 /**
  * Test Data Generator
- * Generates unique, identifiable test data that can be easily cleaned up
+ * Generates unique, identifiable test data that can be easily cleaned up.
+ *
+ * Everything is drawn from one seeded faker. The run seed (`TEST_SEED`, or a random one
+ * chosen in global setup and printed there) is combined with each test's ID into a per-test
+ * seed, so a rerun with the same `TEST_SEED` generates the same names, emails and passwords,
+ * while tests running in parallel still draw different ones.
  */
 export class TestDataGenerator {
+  private static active = new Faker({ locale: [en, base] });
+  private static readonly runNonce = randomBytes(8).toString('hex');
+
+  /**
+   * The faker all generators draw from, for values the generators below don't cover
+   */
+  static get faker(): Faker {
+    return this.active;
+  }
+
+  /**
+   * The run seed from `TEST_SEED`, chosen at random (and stored there for the workers)
+   * when it is not set
+   */
+  static runSeed(): string {
+    if (!process.env[SEED_ENV_VAR]) {
+      process.env[SEED_ENV_VAR] = String(randomInt(1, 2 ** 31));
+    }
+    return process.env[SEED_ENV_VAR] as string;
+  }
+
+  /**
+   * Seed the generator for a scope — a test, a worker — derived from the run seed and a key
+   * identifying the scope
+   * @returns The derived seed
+   */
+  static seed(key: string): number {
+    const seed = this.deriveSeed(key);
+    this.active.seed(seed);
+    return seed;
+  }
+
+  /**
+   * Generate with a faker of its own, seeded from the run seed, a nonce unique to this
+   * process and the key, leaving the current sequence untouched.
+   * For data that outlives a test, e.g. worker organizations and role users: it is not
+   * replayed by `TEST_SEED`, so a rerun never collides with rows an interrupted run left behind.
+   */
+  static withRunNonce<T>(key: string, generate: () => T): T {
+    const current = this.active;
+    this.active = new Faker({
+      locale: [en, base],
+      seed: this.deriveSeed(`${this.runNonce}:${key}`),
+    });
+    try {
+      return generate();
+    } finally {
+      this.active = current;
+    }
+  }
+
+  private static deriveSeed(key: string): number {
+    const hash = createHash('sha256').update(`${this.runSeed()}:${key}`).digest();
+    return hash.readUInt32BE(0);
+  }
+
+  /**
+   * Random lowercase token that makes generated names unique
+   */
+  static generateToken(length: number = 8): string {
+    return this.faker.string.alphanumeric({ length, casing: 'lower' });
+  }
+
   /**
    * Generate a unique user with test email domain
    * Email uses test domain to make cleanup easier
    */
   static generateUser(): UserData {
-    const firstName = faker.person.firstName();
-    const lastName = faker.person.lastName();
-    const timestamp = Date.now();
-    const random = faker.string.alphanumeric(4);
+    const firstName = this.faker.person.firstName();
+    const lastName = this.faker.person.lastName();
+    const token = this.generateToken();
 
     // Use test email domain for easy identification and cleanup
-    const email = `test-${firstName.toLowerCase()}-${timestamp}-${random}@${testConfig.testData.testEmailDomain}`;
+    const email = `test-${this.generateSlug(firstName)}-${token}@${testConfig.testData.testEmailDomain}`;
     const password = this.generatePassword();
 
     return {
@@ -52,7 +126,7 @@ export class TestDataGenerator {
    * Generate a secure password that meets requirements
    */
   static generatePassword(): string {
-    const basePassword = faker.internet.password({
+    const basePassword = this.faker.internet.password({
       length: testConfig.testData.passwordLength,
       memorable: false,
     });
@@ -64,20 +138,18 @@ export class TestDataGenerator {
   /**
    * Generate organization data with test prefix.
    *
-   * Name and slug are built purely from a timestamp and a short alphanumeric
-   * random string so they are always URL-safe and form-valid, regardless of
-   * locale or faker output.
+   * Name and slug are built purely from a lowercase alphanumeric token so they
+   * are always URL-safe and form-valid, regardless of locale or faker output.
    *
    * Example output:
-   *   name: "Test Org 1748291234567 ab3f"
-   *   slug: "test-org-1748291234567-ab3f"
+   *   name: "Test Org k3x9q2mb"
+   *   slug: "test-org-k3x9q2mb"
    */
   static generateOrganization(): OrganizationData {
-    const timestamp = Date.now();
-    const random = faker.string.alphanumeric(4).toLowerCase();
+    const token = this.generateToken();
 
-    const name = `Test Org ${timestamp} ${random}`;
-    const slug = `${testConfig.testData.testOrgPrefix}${timestamp}-${random}`;
+    const name = `Test Org ${token}`;
+    const slug = `${testConfig.testData.testOrgPrefix}${token}`;
 
     return { name, slug };
   }
@@ -100,22 +172,27 @@ export class TestDataGenerator {
    * Generate a random test email
    */
   static generateEmail(): string {
-    const timestamp = Date.now();
-    const random = faker.string.alphanumeric(8);
-    return `test-${timestamp}-${random}@${testConfig.testData.testEmailDomain}`;
+    return `test-${this.generateToken(12)}@${testConfig.testData.testEmailDomain}`;
   }
 
   /**
    * Generate a test company name with prefix
    */
   static generateCompanyName(): string {
-    return `Test ${faker.company.name()}`;
+    return `Test ${this.faker.company.name()}`;
   }
 
   /**
    * Generate unique identifier for test resources
    */
   static generateTestId(): string {
-    return `test-${Date.now()}-${faker.string.alphanumeric(6)}`;
+    return `test-${this.generateToken(12)}`;
+  }
+
+  /**
+   * Generate a unique display name for a business entity, e.g. "Test Client k3x9q2mb"
+   */
+  static generateEntityName(label: string): string {
+    return `${testConfig.testData.entityNamePrefix}${label} ${this.generateToken()}`;
   }
 }
@@ -0,0 +1,244 @@
+/**
+ * Test Data Sweep
+ * Finds the rows tests leave behind — users on the test email domain, `test-org-*`
+ * organizations and business entities named `Test ...` within them — and deletes them with
+ * their dependents. A business row of any other organization is never matched, whatever its
+ * name, so a real tenant's `Test ...` client survives the sweep with everything under it. Unlike TestCleanup, which removes what one test registered, the sweep works
+ * from naming conventions alone, so it also catches data of runs that never cleaned up.
+ */
+
+import { DatabaseHelper } from './database-helper';
+import { Logger } from './logger';
+import { CLEANUP_ORDER, CleanupEntityType } from './test-cleanup';
+import testConfig from '../config/test-config';
+
+const log = Logger.for('cleanup');
+
+/**
+ * Which test data to sweep. Every filter is optional; an empty filter matches all test data.
+ */
+export interface SweepFilter {
+  /** Entity types to include (default: all) */
+  entities?: readonly CleanupEntityType[];
+  /** Only rows created more than this many milliseconds ago */
+  olderThanMs?: number;
+  /** Only data of the test organization with this slug, and that organization itself */
+  organizationSlug?: string;
+}
+
+/**
+ * A test-created row found by the sweep
+ */
+export interface TestDataRow {
+  entityType: CleanupEntityType;
+  id: string;
+  /** Email, slug or display name the row was recognised by */
+  label: string;
+  createdAt: Date | null;
+}
+
+export interface SweepFailure {
+  row: TestDataRow;
+  error: string;
+}
+
+export interface SweepResult {
+  /** Rows deleted, including those another row's cascade already removed */
+  deleted: number;
+  failed: SweepFailure[];
+}
+
+interface SweepSource {
+  table: string;
+  /** Column the row is recognised and labelled by */
+  label: string;
+  /** SQL condition on alias `t` that marks a row as test data; `$1` is the name pattern */
+  match: string;
+  /** The row's name pattern */
+  pattern: () => string;
+  /** SQL expression on alias `t` for the row's organization ID, when it has one */
+  organization: string | null;
+}
+
+const entityNamePattern = () => `${testConfig.testData.entityNamePrefix}%`;
+
+const namedSource = (table: string, label: string, organization: string): SweepSource => ({
+  table,
+  label,
+  match: `t."${label}" LIKE $1`,
+  pattern: entityNamePattern,
+  organization: `t."${organization}"`,
+});
+
+// How each entity type is recognised as test data
+const SOURCES: Record<CleanupEntityType, SweepSource> = {
+  // Rates have no name of their own: they are test data when their SKU or supplier is
+  skuRate: {
+    table: 'skuRate',
+    label: 'id',
+    match: `(EXISTS (SELECT 1 FROM "sku" s WHERE s.id = t."skuId" AND s."displayName" LIKE $1)
+      OR EXISTS (SELECT 1 FROM suppliers sp WHERE sp.id = t."supplierId" AND sp.display_name LIKE $1))`,
+    pattern: entityNamePattern,
+    organization: `(SELECT s."organizationId" FROM "sku" s WHERE s.id = t."skuId")`,
+  },
+  sku: namedSource('sku', 'displayName', 'organizationId'),
+  skuCategory: namedSource('skuCategory', 'displayName', 'organizationId'),
+  skuClassification: namedSource('skuClassification', 'displayName', 'organizationId'),
+  supplierGroup: namedSource('supplier_groups', 'display_name', 'organization_id'),
+  supplier: namedSource('suppliers', 'display_name', 'organization_id'),
+  client: namedSource('client', 'display_name', 'organization_id'),
+  organization: {
+    table: 'organization',
+    label: 'slug',
+    match: 't.slug LIKE $1',
+    pattern: () => `${testConfig.testData.testOrgPrefix}%`,
+    organization: 't.id',
+  },
+  // Users belong to an organization through their memberships
+  user: {
+    table: 'user',
+    label: 'email',
+    match: 't.email LIKE $1',
+    pattern: () => `%@${testConfig.testData.testEmailDomain}`,
+    organization: null,
+  },
+};
+
+// Columns recording when a row was created, in the naming styles the schema mixes
+const CREATED_AT_COLUMNS = ['created_at', 'createdAt'];
+
+export class TestDataSweep {
+  /**
+   * Find the test data matching the filter, dependents first (the order it is deleted in).
+   * Entity types whose table records no creation time are left out when filtering by age.
+   */
+  static async find(filter: SweepFilter = {}): Promise<TestDataRow[]> {
+    const entityTypes = CLEANUP_ORDER.filter(
+      (entityType) => !filter.entities || filter.entities.includes(entityType)
+    );
+    const createdAtColumns = await this.findCreatedAtColumns();
+    const rows: TestDataRow[] = [];
+
+    for (const entityType of entityTypes) {
+      const source = SOURCES[entityType];
+      const createdAt = createdAtColumns.get(source.table) ?? null;
+      if (filter.olderThanMs !== undefined && !createdAt) {
+        log.warning(`Skipping ${entityType}: "${source.table}" has no creation time to filter on`);
+        continue;
+      }
+
+      const { sql, params } = this.buildQuery(source, createdAt, filter);
+      const found = await DatabaseHelper.query<Omit<TestDataRow, 'entityType'>>(sql, params);
+      rows.push(...found.map((row) => ({ entityType, ...row })));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Delete rows with everything that depends on them, one row per transaction so a failure
+   * leaves the rest to go ahead. Rows must be in `find()` order.
+   */
+  static async delete(rows: TestDataRow[]): Promise<SweepResult> {
+    const result: SweepResult = { deleted: 0, failed: [] };
+
+    for (const row of rows) {
+      try {
+        const { table } = SOURCES[row.entityType];
+        const report = await DatabaseHelper.cascadeDelete(table, 'id', row.id);
+        const removed = report.deleted[table] || 0;
+        log.debug(`Deleted ${row.entityType} ${row.label}${removed ? '' : ' (already gone)'}`);
+        result.deleted++;
+      } catch (error) {
+        result.failed.push({
+          row,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (result.failed.length > 0) {
+      log.warning(`${result.failed.length} of ${rows.length} rows could not be deleted`);
+    }
+    return result;
+  }
+
+  /**
+   * Number of rows per entity type, for every type that has any
+   */
+  static countByType(rows: TestDataRow[]): Partial<Record<CleanupEntityType, number>> {
+    const counts: Partial<Record<CleanupEntityType, number>> = {};
+    for (const row of rows) {
+      counts[row.entityType] = (counts[row.entityType] || 0) + 1;
+    }
+    return counts;
+  }
+
+  private static buildQuery(
+    source: SweepSource,
+    createdAt: string | null,
+    filter: SweepFilter
+  ): { sql: string; params: unknown[] } {
+    const params: unknown[] = [source.pattern()];
+    const conditions = [source.match];
+
+    // A test name alone does not make a row test data: it must also live in a test organization
+    if (source.organization) {
+      params.push(`${testConfig.testData.testOrgPrefix}%`);
+      conditions.push(
+        `${source.organization} IN (SELECT id FROM organization WHERE slug LIKE $${params.length})`
+      );
+    }
+
+    if (filter.olderThanMs !== undefined && createdAt) {
+      params.push(new Date(Date.now() - filter.olderThanMs));
+      conditions.push(`t."${createdAt}" < $${params.length}`);
+    }
+
+    if (filter.organizationSlug) {
+      params.push(filter.organizationSlug);
+      const organizationId = `(SELECT id FROM organization WHERE slug = $${params.length})`;
+      conditions.push(
+        source.organization
+          ? `${source.organization} = ${organizationId}`
+          : `t.id IN (SELECT user_id FROM member WHERE organization_id = ${organizationId})`
+      );
+    }
+
+    return {
+      sql: `SELECT t.id::text AS id, t."${source.label}"::text AS label,
+          ${createdAt ? `t."${createdAt}"` : 'NULL'} AS "createdAt"
+        FROM "${source.table}" t
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY label`,
+      params,
+    };
+  }
+
+  /**
+   * Creation time column per table, for the tables that have one
+   */
+  private static async findCreatedAtColumns(): Promise<Map<string, string>> {
+    const columns = await DatabaseHelper.query<{ table: string; column: string }>(
+      `SELECT table_name AS "table", column_name AS "column"
+       FROM information_schema.columns
+       WHERE table_schema = current_schema() AND column_name = ANY($1)`,
+      [CREATED_AT_COLUMNS]
+    );
+    return new Map(columns.map(({ table, column }) => [table, column]));
+  }
+}
+
+/**
+ * Parse a duration such as `90s`, `30m`, `2h` or `7d` into milliseconds
+ */
+export function parseDuration(duration: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*(s|m|h|d)$/.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${duration}" — use a number with s, m, h or d, e.g. 2h`);
+  }
+  const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[
+    match[2] as 's' | 'm' | 'h' | 'd'
+  ];
+  return Number(match[1]) * unitMs;
+}
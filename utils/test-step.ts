@@ -0,0 +1,99 @@
+/**
+ * Test Steps
+ * Runs a block of test work as a numbered Playwright step, so it shows up in the HTML report
+ * and the trace viewer, and logs it through Logger.
+ *
+ * - Steps are numbered per test: 1, 2, 3 … and nested steps 2.1, 2.2 …
+ * - The duration of every step is logged (level `stepEnd`, `data.durationMs`)
+ * - The innermost failing step is added to the test's annotations as `failed-step`
+ * - Outside a running test (setup of worker fixtures) the block just runs, logged only
+ *
+ * Usage:
+ *   await TestStep.run('Open create dialog', async () => {
+ *     await clientsPage.openCreateDialog();
+ *   });
+ *   const id = await TestStep.run('Verify in database', async () => { ... return row.id; });
+ */
+
+import { test, TestInfo } from '@playwright/test';
+import { Logger } from './logger';
+
+interface StepFrame {
+  /** Number of the step, empty for the test itself */
+  label: string;
+  /** Child steps started so far */
+  children: number;
+}
+
+export class TestStep {
+  private static frames = new WeakMap<TestInfo, StepFrame[]>();
+  // Errors already annotated, so only the innermost step is reported as the failing one
+  private static reported = new WeakSet<object>();
+
+  /**
+   * Run `body` as the next step of the current test
+   * @param description - What the step does, shown in the report
+   * @param body - The step's work; its result is returned
+   */
+  static async run<T>(description: string, body: () => Promise<T>): Promise<T> {
+    const testInfo = this.currentTestInfo();
+    if (!testInfo) {
+      Logger.info(description);
+      return body();
+    }
+
+    const frames = this.framesFor(testInfo);
+    const parent = frames[frames.length - 1];
+    parent.children++;
+    const label = parent.label ? `${parent.label}.${parent.children}` : `${parent.children}`;
+
+    return test.step(`${label}. ${description}`, async () => {
+      frames.push({ label, children: 0 });
+      Logger.step(label, description);
+      const started = Date.now();
+
+      try {
+        const result = await body();
+        Logger.stepEnd(label, description, Date.now() - started, true);
+        return result;
+      } catch (error) {
+        const durationMs = Date.now() - started;
+        Logger.stepEnd(label, description, durationMs, false);
+        this.reportFailure(testInfo, error, `${label}. ${description} (after ${durationMs}ms)`);
+        throw error;
+      } finally {
+        frames.pop();
+      }
+    });
+  }
+
+  private static framesFor(testInfo: TestInfo): StepFrame[] {
+    let frames = this.frames.get(testInfo);
+    if (!frames) {
+      frames = [{ label: '', children: 0 }];
+      this.frames.set(testInfo, frames);
+    }
+    return frames;
+  }
+
+  private static reportFailure(testInfo: TestInfo, error: unknown, step: string): void {
+    if (typeof error === 'object' && error !== null) {
+      if (this.reported.has(error)) {
+        return;
+      }
+      this.reported.add(error);
+    }
+    testInfo.annotations.push({ type: 'failed-step', description: step });
+  }
+
+  /**
+   * TestInfo of the running test, or null outside one (e.g. in a worker fixture)
+   */
+  private static currentTestInfo(): TestInfo | null {
+    try {
+      return test.info();
+    } catch {
+      return null;
+    }
+  }
+}
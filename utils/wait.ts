@@ -0,0 +1,186 @@
+/**
+ * Wait Utilities
+ * Waits for concrete signals from the app instead of sleeping for a fixed time:
+ * a row count that stops changing, loading skeletons that disappear, a specific API
+ * response, a sonner toast, or CSS animations that finish.
+ *
+ * `page.waitForTimeout()` is rejected by the linter (eslint.config.js) — use one of these.
+ *
+ * Usage:
+ *   const rows = await Wait.forStableCount(grid.dataRows);
+ *   await Wait.forLoadingToFinish(page);
+ *   const response = await Wait.forResponse(page, '/api/clients', () => submit.click());
+ *   await Wait.forToast(page, 'Client created', { type: 'success' });
+ */
+
+import { setTimeout as delay } from 'timers/promises';
+import { Locator, Page, Response } from '@playwright/test';
+import { Logger } from './logger';
+import testConfig from '../config/test-config';
+
+const log = Logger.for('wait');
+
+/**
+ * Elements the app shows while data is loading: shadcn skeletons, spinners and busy regions
+ */
+export const LOADING_INDICATOR_SELECTOR = [
+  '[data-slot="skeleton"]',
+  '.animate-pulse',
+  '.animate-spin',
+  '[aria-busy="true"]',
+].join(', ');
+
+/**
+ * A sonner toast; its type is in the `data-type` attribute
+ */
+export const TOAST_SELECTOR = '[data-sonner-toast]';
+
+export type ToastType = 'success' | 'error' | 'info' | 'warning' | 'loading' | 'default';
+
+export interface WaitOptions {
+  /** Give up after this many ms (default testConfig.timeouts.medium) */
+  timeout?: number;
+}
+
+export class Wait {
+  /**
+   * Poll a condition until it returns true
+   * @param condition - Checked every testConfig.waitStrategies.pollingInterval ms
+   * @param description - What is awaited, for the timeout error
+   */
+  static async until(
+    condition: () => Promise<boolean>,
+    description: string,
+    { timeout = testConfig.timeouts.medium }: WaitOptions = {}
+  ): Promise<void> {
+    const deadline = Date.now() + timeout;
+
+    while (!(await condition())) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${timeout}ms waiting for ${description}`);
+      }
+      await delay(testConfig.waitStrategies.pollingInterval);
+    }
+  }
+
+  /**
+   * Wait until the number of elements matching a locator stops changing, e.g. table rows
+   * while a list streams in or a filter is applied
+   * @param stableFor - How long the count must stay the same (default waitStrategies.stableFor)
+   * @returns The settled count
+   */
+  static async forStableCount(
+    locator: Locator,
+    {
+      timeout = testConfig.timeouts.medium,
+      stableFor = testConfig.waitStrategies.stableFor,
+    }: WaitOptions & { stableFor?: number } = {}
+  ): Promise<number> {
+    let count = await locator.count();
+    let stableSince = Date.now();
+
+    await Wait.until(
+      async () => {
+        const current = await locator.count();
+        if (current !== count) {
+          count = current;
+          stableSince = Date.now();
+        }
+        return Date.now() - stableSince >= stableFor;
+      },
+      `a stable count of ${locator}`,
+      { timeout }
+    );
+
+    log.debug(`Count settled at ${count}`);
+    return count;
+  }
+
+  /**
+   * Wait until no loading indicator (LOADING_INDICATOR_SELECTOR) is left on the page or in
+   * a part of it
+   */
+  static async forLoadingToFinish(
+    scope: Page | Locator,
+    { timeout = testConfig.timeouts.long }: WaitOptions = {}
+  ): Promise<void> {
+    const indicators = scope.locator(LOADING_INDICATOR_SELECTOR);
+    await Wait.until(async () => (await indicators.count()) === 0, 'loading indicators to clear', {
+      timeout,
+    });
+  }
+
+  /**
+   * Wait for a response from an API endpoint. Pass the action that triggers the request so
+   * the listener is in place before it is sent.
+   * @param url - Substring of the URL, or a pattern
+   * @param action - Triggers the request, e.g. `() => submitButton.click()`
+   * @param method - Only match this HTTP method, e.g. "POST"
+   */
+  static async forResponse(
+    page: Page,
+    url: string | RegExp,
+    action?: () => Promise<unknown>,
+    { timeout = testConfig.timeouts.medium, method }: WaitOptions & { method?: string } = {}
+  ): Promise<Response> {
+    const response = page.waitForResponse(
+      (candidate) =>
+        (typeof url === 'string' ? candidate.url().includes(url) : url.test(candidate.url())) &&
+        (!method || candidate.request().method() === method.toUpperCase()),
+      { timeout }
+    );
+
+    if (action) {
+      await action();
+    }
+
+    const result = await response;
+    log.debug(`${result.request().method()} ${result.url()} → ${result.status()}`);
+    return result;
+  }
+
+  /**
+   * Wait for a sonner toast to appear
+   * @param text - Text the toast must contain
+   * @param type - Only match toasts of this type (`data-type` attribute)
+   * @returns The toast's locator
+   */
+  static async forToast(
+    page: Page,
+    text?: string | RegExp,
+    { timeout = testConfig.timeouts.medium, type }: WaitOptions & { type?: ToastType } = {}
+  ): Promise<Locator> {
+    let toast = page.locator(type ? `${TOAST_SELECTOR}[data-type="${type}"]` : TOAST_SELECTOR);
+    if (text) {
+      toast = toast.filter({ hasText: text });
+    }
+    toast = toast.first();
+
+    await toast.waitFor({ state: 'visible', timeout });
+    return toast;
+  }
+
+  /**
+   * Wait for the CSS animations and transitions of an element and its children to finish,
+   * e.g. a collapsible sidebar group or a popover sliding in
+   */
+  static async forAnimations(
+    locator: Locator,
+    { timeout = testConfig.timeouts.short }: WaitOptions = {}
+  ): Promise<void> {
+    await locator.waitFor({ state: 'attached', timeout });
+    await locator.evaluate(
+      (element) =>
+        Promise.all(
+          element
+            .getAnimations({ subtree: true })
+            // A cancelled animation rejects `finished`; it is over either way
+            .map((animation: { finished: Promise<unknown> }) =>
+              animation.finished.catch(() => undefined)
+            )
+        ),
+      undefined,
+      { timeout }
+    );
+  }
+}